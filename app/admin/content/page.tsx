@@ -0,0 +1,6 @@
+import ContentEditor from "@/components/content-editor"
+
+// Access is enforced by the admin content API the editor reads from
+export default function ContentPage() {
+  return <ContentEditor />
+}
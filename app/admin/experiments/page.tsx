@@ -0,0 +1,6 @@
+import ExperimentDashboard from "@/components/experiment-dashboard"
+
+// Access is enforced by the admin analytics API the dashboard reads from
+export default function ExperimentsPage() {
+  return <ExperimentDashboard />
+}
@@ -0,0 +1,6 @@
+import VisaSupportQueue from "@/components/visa-support-queue"
+
+// Access is enforced by the admin visa support API the queue reads from
+export default function VisaSupportPage() {
+  return <VisaSupportQueue />
+}
@@ -0,0 +1,19 @@
+// app/api/admin/cancellations/[id]/replay/route.ts
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth"
+import { errorResponse, parseParam } from "@/lib/api"
+import { getReplay } from "@/lib/audit"
+import { cancellationIdSchema } from "@/lib/cancellation-api"
+import type { ReplayResponse } from "@/lib/audit-api"
+
+// Everything that happened in one cancellation session, in order
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await requireAdmin()
+    const id = parseParam((await params).id, cancellationIdSchema, "cancellation id")
+    const { cancellation, events } = await getReplay(id)
+    return NextResponse.json<ReplayResponse>({ success: true, cancellation, events })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
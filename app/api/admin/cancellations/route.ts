@@ -0,0 +1,18 @@
+// app/api/admin/cancellations/route.ts
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth"
+import { errorResponse, parseQuery } from "@/lib/api"
+import { listUserCancellations } from "@/lib/audit"
+import { listCancellationsQuerySchema, type CancellationsResponse } from "@/lib/audit-api"
+
+// Find a user's cancellation sessions by email, to pick one to replay
+export async function GET(request: Request) {
+  try {
+    await requireAdmin()
+    const { email } = parseQuery(request, listCancellationsQuerySchema)
+    const cancellations = await listUserCancellations(email)
+    return NextResponse.json<CancellationsResponse>({ success: true, cancellations })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
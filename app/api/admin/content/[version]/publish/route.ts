@@ -0,0 +1,18 @@
+// app/api/admin/content/[version]/publish/route.ts
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth"
+import { errorResponse, parseParam } from "@/lib/api"
+import { publishContentVersion } from "@/lib/content"
+import { contentVersionNumberSchema, type ContentVersionResponse } from "@/lib/content-api"
+
+// Make a version the one new cancellations start with; sessions already under way keep theirs
+export async function POST(_request: Request, { params }: { params: Promise<{ version: string }> }) {
+  try {
+    await requireAdmin()
+    const number = parseParam((await params).version, contentVersionNumberSchema, "content version")
+    const version = await publishContentVersion(number)
+    return NextResponse.json<ContentVersionResponse>({ success: true, version })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,17 @@
+// app/api/admin/content/[version]/route.ts
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth"
+import { errorResponse, parseParam } from "@/lib/api"
+import { getContentVersion } from "@/lib/content"
+import { contentVersionNumberSchema, type ContentVersionResponse } from "@/lib/content-api"
+
+export async function GET(_request: Request, { params }: { params: Promise<{ version: string }> }) {
+  try {
+    await requireAdmin()
+    const number = parseParam((await params).version, contentVersionNumberSchema, "content version")
+    const version = await getContentVersion(number)
+    return NextResponse.json<ContentVersionResponse>({ success: true, version })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,34 @@
+// app/api/admin/content/route.ts
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth"
+import { errorResponse, parseJson } from "@/lib/api"
+import { createContentVersion, listContentVersions } from "@/lib/content"
+import { DEFAULT_FLOW_CONTENT } from "@/lib/flow-content"
+import {
+  createContentVersionRequestSchema,
+  type ContentVersionResponse,
+  type ContentVersionsResponse,
+} from "@/lib/content-api"
+
+// Every saved version, newest first, with the built-in content to start a first draft from
+export async function GET() {
+  try {
+    await requireAdmin()
+    const versions = await listContentVersions()
+    return NextResponse.json<ContentVersionsResponse>({ success: true, versions, defaults: DEFAULT_FLOW_CONTENT })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// Save a draft version; it isn't shown to users until published
+export async function POST(request: Request) {
+  try {
+    const admin = await requireAdmin()
+    const body = await parseJson(request, createContentVersionRequestSchema)
+    const version = await createContentVersion(admin.id, body)
+    return NextResponse.json<ContentVersionResponse>({ success: true, version }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
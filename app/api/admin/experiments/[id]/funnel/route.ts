@@ -0,0 +1,18 @@
+// app/api/admin/experiments/[id]/funnel/route.ts
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth"
+import { errorResponse, parseParam } from "@/lib/api"
+import { getExperimentFunnel } from "@/lib/experiment-results"
+import { experimentIdSchema, type ExperimentFunnelResponse } from "@/lib/experiment-api"
+
+// Where sessions drop off in the flow, step by step for each arm
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await requireAdmin()
+    const id = parseParam((await params).id, experimentIdSchema, "experiment id")
+    const funnel = await getExperimentFunnel(id)
+    return NextResponse.json<ExperimentFunnelResponse>({ success: true, ...funnel })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
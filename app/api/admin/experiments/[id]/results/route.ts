@@ -0,0 +1,18 @@
+// app/api/admin/experiments/[id]/results/route.ts
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth"
+import { errorResponse, parseParam } from "@/lib/api"
+import { getExperimentResults } from "@/lib/experiment-results"
+import { experimentIdSchema, type ExperimentResultsResponse } from "@/lib/experiment-api"
+
+// Sessions and outcomes per arm, with confidence intervals and a test against the control arm
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await requireAdmin()
+    const id = parseParam((await params).id, experimentIdSchema, "experiment id")
+    const results = await getExperimentResults(id)
+    return NextResponse.json<ExperimentResultsResponse>({ success: true, ...results })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,16 @@
+// app/api/admin/experiments/route.ts
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth"
+import { errorResponse } from "@/lib/api"
+import { listExperiments } from "@/lib/experiment-results"
+import type { ExperimentsResponse } from "@/lib/experiment-api"
+
+export async function GET() {
+  try {
+    await requireAdmin()
+    const experiments = await listExperiments()
+    return NextResponse.json<ExperimentsResponse>({ success: true, experiments })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
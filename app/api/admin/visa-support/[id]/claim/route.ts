@@ -0,0 +1,18 @@
+// app/api/admin/visa-support/[id]/claim/route.ts
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth"
+import { errorResponse, parseParam } from "@/lib/api"
+import { claimVisaSupportLead } from "@/lib/visa-support"
+import { visaSupportRequestIdSchema, type VisaSupportLeadResponse } from "@/lib/visa-support-api"
+
+// Take an open lead, so the rest of the team knows it's being handled
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const admin = await requireAdmin()
+    const id = parseParam((await params).id, visaSupportRequestIdSchema, "visa support request id")
+    const lead = await claimVisaSupportLead(admin.id, id)
+    return NextResponse.json<VisaSupportLeadResponse>({ success: true, lead })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
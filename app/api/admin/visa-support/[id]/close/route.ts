@@ -0,0 +1,18 @@
+// app/api/admin/visa-support/[id]/close/route.ts
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth"
+import { errorResponse, parseParam } from "@/lib/api"
+import { closeVisaSupportLead } from "@/lib/visa-support"
+import { visaSupportRequestIdSchema, type VisaSupportLeadResponse } from "@/lib/visa-support-api"
+
+// Mark a lead handled; it leaves the queue but stays listed under closed
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const admin = await requireAdmin()
+    const id = parseParam((await params).id, visaSupportRequestIdSchema, "visa support request id")
+    const lead = await closeVisaSupportLead(admin.id, id)
+    return NextResponse.json<VisaSupportLeadResponse>({ success: true, lead })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,23 @@
+// app/api/admin/visa-support/[id]/notes/route.ts
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth"
+import { errorResponse, parseJson, parseParam } from "@/lib/api"
+import { addVisaSupportNote } from "@/lib/visa-support"
+import {
+  addVisaSupportNoteSchema,
+  visaSupportRequestIdSchema,
+  type VisaSupportLeadResponse,
+} from "@/lib/visa-support-api"
+
+// Add a note to a lead, e.g. what was discussed with the user or which lawyer they were referred to
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const admin = await requireAdmin()
+    const id = parseParam((await params).id, visaSupportRequestIdSchema, "visa support request id")
+    const { body } = await parseJson(request, addVisaSupportNoteSchema)
+    const lead = await addVisaSupportNote(admin.id, id, body)
+    return NextResponse.json<VisaSupportLeadResponse>({ success: true, lead }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
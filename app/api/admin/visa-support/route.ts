@@ -0,0 +1,18 @@
+// app/api/admin/visa-support/route.ts
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth"
+import { errorResponse, parseQuery } from "@/lib/api"
+import { listVisaSupportLeads } from "@/lib/visa-support"
+import { listVisaSupportQuerySchema, type VisaSupportLeadsResponse } from "@/lib/visa-support-api"
+
+// The visa team's queue, oldest lead first
+export async function GET(request: Request) {
+  try {
+    await requireAdmin()
+    const { status } = parseQuery(request, listVisaSupportQuerySchema)
+    const leads = await listVisaSupportLeads(status)
+    return NextResponse.json<VisaSupportLeadsResponse>({ success: true, leads })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
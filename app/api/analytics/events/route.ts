@@ -0,0 +1,18 @@
+// app/api/analytics/events/route.ts
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth"
+import { errorResponse, parseJson } from "@/lib/api"
+import { collectEvents } from "@/lib/analytics"
+import { collectEventsRequestSchema, type CollectEventsResponse } from "@/lib/analytics-api"
+
+// Batches from the analytics client; event ids make resent batches safe without an Idempotency-Key
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser()
+    const { events } = await parseJson(request, collectEventsRequestSchema)
+    const accepted = await collectEvents(user.id, events)
+    return NextResponse.json<CollectEventsResponse>({ success: true, accepted }, { status: 202 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
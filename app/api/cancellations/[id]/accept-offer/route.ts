@@ -0,0 +1,26 @@
+// app/api/cancellations/[id]/accept-offer/route.ts
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth"
+import { errorResponse, parseJson, parseParam } from "@/lib/api"
+import { idempotent } from "@/lib/idempotency"
+import { acceptOffer } from "@/lib/cancellations"
+import {
+  acceptOfferRequestSchema,
+  cancellationIdSchema,
+  type SessionResponse,
+} from "@/lib/cancellation-api"
+
+// Accept the downsell offer, which ends the session without cancelling
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireUser()
+    const id = parseParam((await params).id, cancellationIdSchema, "cancellation id")
+    return await idempotent(request, user.id, async () => {
+      await parseJson(request, acceptOfferRequestSchema)
+      const cancellation = await acceptOffer(user.id, id)
+      return NextResponse.json<SessionResponse>({ success: true, cancellation })
+    })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,26 @@
+// app/api/cancellations/[id]/confirm/route.ts
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth"
+import { errorResponse, parseJson, parseParam } from "@/lib/api"
+import { idempotent } from "@/lib/idempotency"
+import { confirmCancellation } from "@/lib/cancellations"
+import {
+  cancellationIdSchema,
+  confirmCancellationRequestSchema,
+  type SessionResponse,
+} from "@/lib/cancellation-api"
+
+// Confirm the cancellation and schedule the subscription to end
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireUser()
+    const id = parseParam((await params).id, cancellationIdSchema, "cancellation id")
+    return await idempotent(request, user.id, async () => {
+      await parseJson(request, confirmCancellationRequestSchema)
+      const cancellation = await confirmCancellation(user.id, id)
+      return NextResponse.json<SessionResponse>({ success: true, cancellation })
+    })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
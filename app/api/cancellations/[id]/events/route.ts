@@ -0,0 +1,21 @@
+// app/api/cancellations/[id]/events/route.ts
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth"
+import { errorResponse, parseJson, parseParam } from "@/lib/api"
+import { recordFlowEvent } from "@/lib/cancellations"
+import { cancellationIdSchema } from "@/lib/cancellation-api"
+import { recordEventRequestSchema, type RecordEventResponse } from "@/lib/audit-api"
+
+// Record something the user did in the flow for the session's audit trail.
+// The flow sends these once without retrying, so there is nothing for an Idempotency-Key to dedupe.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireUser()
+    const id = parseParam((await params).id, cancellationIdSchema, "cancellation id")
+    const event = await parseJson(request, recordEventRequestSchema)
+    await recordFlowEvent(user.id, id, event)
+    return NextResponse.json<RecordEventResponse>({ success: true }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,24 @@
+// app/api/cancellations/[id]/progress/route.ts
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth"
+import { errorResponse, parseJson, parseParam } from "@/lib/api"
+import { saveProgress } from "@/lib/cancellations"
+import {
+  cancellationIdSchema,
+  saveProgressRequestSchema,
+  type SessionResponse,
+} from "@/lib/cancellation-api"
+
+// Save the current step and partial answers so the flow can be resumed later.
+// Each save overwrites the last, so a repeated request does no harm and isn't run through idempotent().
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireUser()
+    const id = parseParam((await params).id, cancellationIdSchema, "cancellation id")
+    const { progress } = await parseJson(request, saveProgressRequestSchema)
+    const cancellation = await saveProgress(user.id, id, progress)
+    return NextResponse.json<SessionResponse>({ success: true, cancellation })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,17 @@
+// app/api/cancellations/[id]/route.ts
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth"
+import { errorResponse, parseParam } from "@/lib/api"
+import { getCancellation } from "@/lib/cancellations"
+import { cancellationIdSchema, type SessionResponse } from "@/lib/cancellation-api"
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireUser()
+    const id = parseParam((await params).id, cancellationIdSchema, "cancellation id")
+    const cancellation = await getCancellation(user.id, id)
+    return NextResponse.json<SessionResponse>({ success: true, cancellation })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
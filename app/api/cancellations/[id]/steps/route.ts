@@ -0,0 +1,26 @@
+// app/api/cancellations/[id]/steps/route.ts
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth"
+import { errorResponse, parseJson, parseParam } from "@/lib/api"
+import { idempotent } from "@/lib/idempotency"
+import { submitStep } from "@/lib/cancellations"
+import {
+  cancellationIdSchema,
+  submitStepRequestSchema,
+  type SessionResponse,
+} from "@/lib/cancellation-api"
+
+// Record the answers given on one step of the flow
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireUser()
+    const id = parseParam((await params).id, cancellationIdSchema, "cancellation id")
+    return await idempotent(request, user.id, async () => {
+      const answers = await parseJson(request, submitStepRequestSchema)
+      const cancellation = await submitStep(user.id, id, answers)
+      return NextResponse.json<SessionResponse>({ success: true, cancellation })
+    })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,23 @@
+// app/api/cancellations/[id]/visa-support/route.ts
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth"
+import { errorResponse, parseJson, parseParam } from "@/lib/api"
+import { idempotent } from "@/lib/idempotency"
+import { requestVisaSupport } from "@/lib/cancellations"
+import { cancellationIdSchema, type SessionResponse } from "@/lib/cancellation-api"
+import { createVisaSupportRequestSchema } from "@/lib/visa-support-api"
+
+// Create the session's visa support lead for the visa team's queue
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireUser()
+    const id = parseParam((await params).id, cancellationIdSchema, "cancellation id")
+    return await idempotent(request, user.id, async () => {
+      await parseJson(request, createVisaSupportRequestSchema)
+      const cancellation = await requestVisaSupport(user.id, id)
+      return NextResponse.json<SessionResponse>({ success: true, cancellation }, { status: 201 })
+    })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,21 @@
+// app/api/cancellations/route.ts
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth"
+import { errorResponse, parseJson } from "@/lib/api"
+import { idempotent } from "@/lib/idempotency"
+import { startCancellation } from "@/lib/cancellations"
+import { startCancellationRequestSchema, type SessionResponse } from "@/lib/cancellation-api"
+
+// Start (or resume) a cancellation session and assign its variant; 201 only when a session was created
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser()
+    return await idempotent(request, user.id, async () => {
+      const { subscription_id, locale } = await parseJson(request, startCancellationRequestSchema)
+      const { cancellation, created } = await startCancellation(user.id, subscription_id, locale)
+      return NextResponse.json<SessionResponse>({ success: true, cancellation }, { status: created ? 201 : 200 })
+    })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,27 @@
+// app/api/invoices/[id]/receipt/route.ts
+import { requireUser } from "@/lib/auth"
+import { errorResponse, parseParam, parseQuery } from "@/lib/api"
+import { getReceiptData } from "@/lib/invoices"
+import { getRequestLocale } from "@/lib/locale"
+import { receiptFilename, renderReceipt } from "@/lib/receipts"
+import { invoiceIdSchema, receiptQuerySchema } from "@/lib/invoice-api"
+
+// A printable HTML receipt; ?download=1 saves it instead of opening it
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireUser()
+    const id = parseParam((await params).id, invoiceIdSchema, "invoice id")
+    const { download } = parseQuery(request, receiptQuerySchema)
+    const receipt = await getReceiptData(user.id, id)
+    const locale = await getRequestLocale(receipt.user.locale)
+
+    return new Response(renderReceipt(receipt, locale), {
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        "Content-Disposition": `${download === "1" ? "attachment" : "inline"}; filename="${receiptFilename(receipt.invoice)}"`,
+      },
+    })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,18 @@
+// app/api/invoices/route.ts
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth"
+import { errorResponse, parseQuery } from "@/lib/api"
+import { listInvoices } from "@/lib/invoices"
+import { listInvoicesQuerySchema, type InvoicesResponse } from "@/lib/invoice-api"
+
+// The current user's invoices across their subscriptions, newest first
+export async function GET(request: Request) {
+  try {
+    const user = await requireUser()
+    const query = parseQuery(request, listInvoicesQuerySchema)
+    const { invoices, total } = await listInvoices(user.id, query)
+    return NextResponse.json<InvoicesResponse>({ success: true, invoices, total, ...query })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
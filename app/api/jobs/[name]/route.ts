@@ -0,0 +1,26 @@
+// app/api/jobs/[name]/route.ts
+import { NextResponse } from "next/server"
+import { headers } from "next/headers"
+import { ApiError, errorResponse } from "@/lib/api"
+import { isJobName, JOBS } from "@/lib/jobs"
+
+// Jobs are triggered by a scheduler holding CRON_SECRET, never by users
+async function assertScheduler() {
+  const secret = process.env.CRON_SECRET
+  const authorization = (await headers()).get("authorization")
+  if (!secret || authorization !== `Bearer ${secret}`) throw new ApiError(401, "Invalid job credentials")
+}
+
+export async function POST(_request: Request, { params }: { params: Promise<{ name: string }> }) {
+  try {
+    await assertScheduler()
+    const { name } = await params
+    if (!isJobName(name)) throw new ApiError(404, `Unknown job: ${name}`)
+
+    const result = await JOBS[name]()
+    console.log(`[jobs] ${name}:`, result)
+    return NextResponse.json({ success: true, job: name, ...result })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,18 @@
+// app/api/locale/route.ts
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth"
+import { errorResponse, parseJson } from "@/lib/api"
+import { setUserLocale } from "@/lib/locale"
+import { updateLocaleRequestSchema, type LocaleResponse } from "@/lib/locale-api"
+
+// Pick the language the app is shown in, or go back to the browser's with null
+export async function PUT(request: Request) {
+  try {
+    const user = await requireUser()
+    const { locale: override } = await parseJson(request, updateLocaleRequestSchema)
+    const locale = await setUserLocale(user.id, override)
+    return NextResponse.json<LocaleResponse>({ success: true, locale, override })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,21 @@
+// app/api/subscriptions/[id]/discount/route.ts
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth"
+import { errorResponse, parseParam } from "@/lib/api"
+import { idempotent } from "@/lib/idempotency"
+import { revertDiscount } from "@/lib/discounts"
+import { subscriptionIdSchema, type SubscriptionResponse } from "@/lib/subscription-api"
+
+// End the subscription's discount and go back to full price
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireUser()
+    const id = parseParam((await params).id, subscriptionIdSchema, "subscription id")
+    return await idempotent(request, user.id, async () => {
+      const subscription = await revertDiscount(user.id, id)
+      return NextResponse.json<SubscriptionResponse>({ success: true, subscription })
+    })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,18 @@
+// app/api/subscriptions/[id]/payment-method/route.ts
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth"
+import { errorResponse, parseParam } from "@/lib/api"
+import { updatePaymentMethod } from "@/lib/subscriptions"
+import { subscriptionIdSchema, type PaymentMethodResponse } from "@/lib/subscription-api"
+
+// Start a card update; the client redirects to the returned provider page
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireUser()
+    const id = parseParam((await params).id, subscriptionIdSchema, "subscription id")
+    const url = await updatePaymentMethod(user.id, id, new URL("/", request.url).toString())
+    return NextResponse.json<PaymentMethodResponse>({ success: true, url })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
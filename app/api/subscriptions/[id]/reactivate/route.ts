@@ -0,0 +1,21 @@
+// app/api/subscriptions/[id]/reactivate/route.ts
+import { NextResponse } from "next/server"
+import { requireUser } from "@/lib/auth"
+import { errorResponse, parseParam } from "@/lib/api"
+import { idempotent } from "@/lib/idempotency"
+import { reactivateSubscription } from "@/lib/subscriptions"
+import { subscriptionIdSchema, type SubscriptionResponse } from "@/lib/subscription-api"
+
+// Undo a pending cancellation before the billing period ends
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireUser()
+    const id = parseParam((await params).id, subscriptionIdSchema, "subscription id")
+    return await idempotent(request, user.id, async () => {
+      const subscription = await reactivateSubscription(user.id, id)
+      return NextResponse.json<SubscriptionResponse>({ success: true, subscription })
+    })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -1,7 +1,28 @@
-"use client"
-
 import ProfilePage from "@/components/profile-page"
+import { getSessionUser } from "@/lib/auth"
+import { getRequestLocale } from "@/lib/locale"
+import { translate } from "@/lib/messages"
+import { getProfile } from "@/lib/profile"
+
+export default async function Home() {
+  const sessionUser = await getSessionUser()
+  const profile = sessionUser ? await getProfile(sessionUser.id) : null
+  const locale = await getRequestLocale(profile?.user.locale ?? null)
+
+  if (!profile) {
+    return (
+      <div lang={locale} className="min-h-screen bg-gray-50 py-12">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="bg-white shadow rounded-lg px-6 py-8 text-center">
+            <h1 className="text-2xl font-bold text-gray-900">{translate(locale, "title")}</h1>
+            <p className="mt-2 text-sm text-gray-500">{translate(locale, "sign-in")}</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
 
-export default function Home() {
-  return <ProfilePage />
+  // What the browser alone would pick, to label the "automatic" choice
+  const browserLocale = await getRequestLocale(null)
+  return <ProfilePage {...profile} locale={locale} browserLocale={browserLocale} />
 }
@@ -0,0 +1,103 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { formatDate, type Locale } from "@/lib/i18n"
+import { formatMoney } from "@/lib/money"
+import { translate, type ProfileMessageKey } from "@/lib/messages"
+import { errorResponseSchema } from "@/lib/cancellation-api"
+import { invoicesResponseSchema, type InvoicesResponse, type InvoiceSummary } from "@/lib/invoice-api"
+
+const STATUS_STYLES: Record<InvoiceSummary["status"], { label: ProfileMessageKey; className: string }> = {
+  paid: { label: "billing.paid", className: "bg-green-50 text-green-700" },
+  open: { label: "billing.open", className: "bg-yellow-50 text-yellow-700" },
+  void: { label: "billing.void", className: "bg-gray-100 text-gray-500" },
+}
+
+async function fetchInvoices(page: number): Promise<InvoicesResponse> {
+  const res = await fetch(`/api/invoices?page=${page}`, { credentials: "same-origin" })
+  const data = await res.json()
+  if (!res.ok) {
+    const parsed = errorResponseSchema.safeParse(data)
+    throw new Error(parsed.success ? parsed.data.message : `HTTP ${res.status}`)
+  }
+  return invoicesResponseSchema.parse(data)
+}
+
+export default function BillingHistory({ locale }: { locale: Locale }) {
+  const t = (key: ProfileMessageKey, values?: Record<string, string | number>) => translate(locale, key, values)
+  const [page, setPage] = useState(1)
+  const [result, setResult] = useState<InvoicesResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setError(null)
+    fetchInvoices(page)
+      .then(setResult)
+      .catch((err) => setError(err.message))
+  }, [page])
+
+  if (error) return <p className="p-4 text-sm text-red-600 bg-red-50 rounded-lg">{error}</p>
+  if (!result) return <p className="p-4 text-sm text-gray-500 bg-gray-50 rounded-lg">{t("billing.loading")}</p>
+  if (result.total === 0) return <p className="p-4 text-sm text-gray-500 bg-gray-50 rounded-lg">{t("billing.empty")}</p>
+
+  const pageCount = Math.ceil(result.total / result.per_page)
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg">
+      <ul className="divide-y divide-gray-200">
+        {result.invoices.map((invoice) => {
+          const status = STATUS_STYLES[invoice.status]
+          const receiptUrl = `/api/invoices/${invoice.id}/receipt`
+          return (
+            <li key={invoice.id} className="py-3 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="text-gray-700">
+                  {formatDate(invoice.period_start, locale)} – {formatDate(invoice.period_end, locale)}
+                </span>
+                <span className="font-medium text-gray-900">{formatMoney(invoice.amount, locale)}</span>
+              </div>
+              <div className="flex items-center justify-between mt-1">
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${status.className}`}>{t(status.label)}</span>
+                  {invoice.discount_id && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-purple-50 text-purple-700">
+                      {t("billing.discounted")}
+                    </span>
+                  )}
+                </div>
+                <div className="flex gap-3 text-xs">
+                  <a href={receiptUrl} target="_blank" rel="noopener" className="text-purple-600 hover:underline">
+                    {t("billing.receipt")}
+                  </a>
+                  <a href={`${receiptUrl}?download=1`} className="text-purple-600 hover:underline">
+                    {t("billing.download")}
+                  </a>
+                </div>
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between pt-3 text-xs text-gray-500">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page === 1}
+            className="px-2 py-1 rounded hover:bg-gray-200 disabled:opacity-40"
+          >
+            {t("billing.newer")}
+          </button>
+          <span>{t("billing.page", { page, count: pageCount })}</span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= pageCount}
+            className="px-2 py-1 rounded hover:bg-gray-200 disabled:opacity-40"
+          >
+            {t("billing.older")}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
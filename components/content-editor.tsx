@@ -0,0 +1,438 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { STEP_VIEWS, type StepViewProps } from "@/components/flow-steps"
+import { errorResponseSchema, flowStepSchema, type FlowStep } from "@/lib/cancellation-api"
+import {
+  contentVersionResponseSchema,
+  contentVersionsResponseSchema,
+  flowContentSchema,
+  reasonFollowUpSchema,
+  type ContentVersionSummary,
+  type FlowContent,
+  type FlowOptions,
+} from "@/lib/content-api"
+import { getCopy, type CopyKey } from "@/lib/flow-content"
+import { DEFAULT_LOCALE, LOCALES, LOCALE_NAMES, formatDate, type Locale } from "@/lib/i18n"
+import { MESSAGES } from "@/lib/messages"
+import { INITIAL_FLOW_STATE, type FlowState } from "@/lib/flow"
+import { DEFAULT_CURRENCY, money } from "@/lib/money"
+import { resolveDownsellOffer } from "@/lib/offers"
+
+const COPY_KEYS = Object.keys(MESSAGES[DEFAULT_LOCALE].flow) as CopyKey[]
+
+// Sample offer and dates for the preview, so offer screens render without a real session
+const PREVIEW_OFFER = resolveDownsellOffer(
+  "preview",
+  { type: "amount_off", amountOff: money(1000, DEFAULT_CURRENCY) },
+  money(2500, DEFAULT_CURRENCY),
+)
+const PREVIEW_PERIOD_END = "2025-10-31T00:00:00Z"
+const PREVIEW_DAYS_LEFT = 12
+
+async function fetchJson<T>(path: string, schema: { parse: (data: unknown) => T }, init?: RequestInit): Promise<T> {
+  const res = await fetch(path, { credentials: "same-origin", ...init })
+  const data = await res.json()
+  if (!res.ok) {
+    const parsed = errorResponseSchema.safeParse(data)
+    throw new Error(parsed.success ? parsed.data.message : `HTTP ${res.status}`)
+  }
+  return schema.parse(data)
+}
+
+// Answers filled in so selections and reason follow-ups show in the preview
+function previewState(step: FlowStep, content: FlowContent): FlowState {
+  const [role] = content.options.role_options
+  const [interview] = content.options.interview_options
+  const reason = content.options.reasons.find((r) => r.follow_up === step) ?? content.options.reasons[0]
+  return {
+    ...INITIAL_FLOW_STATE,
+    step,
+    hasJob: step !== "job-question" ? !step.startsWith("retention") : null,
+    surveyData: { foundJobWithMM: true, rolesApplied: role, companiesEmailed: role, companiesInterviewed: interview },
+    hasLawyer: step === "visa-yes" ? true : step === "visa-no" ? false : null,
+    retentionData: {
+      ...INITIAL_FLOW_STATE.retentionData,
+      rolesApplied: role,
+      companiesEmailed: role,
+      companiesInterviewed: interview,
+      cancellationReason: step === "retention-survey" ? null : (reason?.label ?? null),
+    },
+  }
+}
+
+function OptionListField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string
+  value: string[]
+  onChange: (value: string[]) => void
+}) {
+  return (
+    <label className="block text-sm">
+      <span className="text-gray-700">{label} (one per line)</span>
+      <textarea
+        value={value.join("\n")}
+        onChange={(e) => onChange(e.target.value.split("\n"))}
+        rows={Math.max(3, value.length)}
+        className="mt-1 w-full p-2 border border-gray-300 rounded-md font-mono text-xs"
+      />
+    </label>
+  )
+}
+
+function Preview({ content, locale }: { content: FlowContent; locale: Locale }) {
+  const [step, setStep] = useState<FlowStep>("job-question")
+  const StepView = STEP_VIEWS[step]
+  const noop = () => {}
+  const t: StepViewProps["t"] = (key, values) => getCopy(content, locale, key, values)
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-gray-900">Preview</h2>
+        <select
+          value={step}
+          onChange={(e) => setStep(e.target.value as FlowStep)}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-md bg-white"
+          aria-label="Preview step"
+        >
+          {flowStepSchema.options.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div lang={locale} className="border border-gray-200 rounded-lg p-6 bg-white pointer-events-none">
+        <StepView
+          state={previewState(step, content)}
+          update={noop}
+          updateSurvey={noop}
+          updateRetention={noop}
+          next={noop}
+          canContinue
+          content={content}
+          locale={locale}
+          currency={DEFAULT_CURRENCY}
+          t={t}
+          offer={PREVIEW_OFFER}
+          acceptOffer={noop}
+          close={noop}
+          periodEnd={formatDate(PREVIEW_PERIOD_END, locale)}
+          daysLeft={PREVIEW_DAYS_LEFT}
+        />
+      </div>
+    </div>
+  )
+}
+
+export default function ContentEditor() {
+  const [versions, setVersions] = useState<ContentVersionSummary[]>([])
+  const [draft, setDraft] = useState<FlowContent | null>(null)
+  const [baseVersion, setBaseVersion] = useState<number | null>(null)
+  const [note, setNote] = useState("")
+  const [filter, setFilter] = useState("")
+  // Language whose copy and reason translations are being edited and previewed
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadVersions = () =>
+    fetchJson("/api/admin/content", contentVersionsResponseSchema).then(({ versions, defaults }) => {
+      setVersions(versions)
+      return { versions, defaults }
+    })
+
+  // Start editing from the live version, or the built-in content when nothing is published
+  useEffect(() => {
+    loadVersions()
+      .then(async ({ versions, defaults }) => {
+        const current = versions.find((v) => v.current)
+        if (!current) return setDraft(defaults)
+        const { version } = await fetchJson(`/api/admin/content/${current.version}`, contentVersionResponseSchema)
+        setDraft(version.content)
+        setBaseVersion(version.version)
+      })
+      .catch((err) => setError(err.message))
+  }, [])
+
+  const openVersion = (number: number) => {
+    setError(null)
+    fetchJson(`/api/admin/content/${number}`, contentVersionResponseSchema)
+      .then(({ version }) => {
+        setDraft(version.content)
+        setBaseVersion(version.version)
+      })
+      .catch((err) => setError(err.message))
+  }
+
+  const publish = (number: number) => {
+    setError(null)
+    fetchJson(`/api/admin/content/${number}/publish`, contentVersionResponseSchema, { method: "POST" })
+      .then(loadVersions)
+      .catch((err) => setError(err.message))
+  }
+
+  const saveDraft = async () => {
+    if (!draft) return
+    // Blank lines left in option lists are dropped rather than rejected
+    const content = {
+      ...draft,
+      options: {
+        ...draft.options,
+        role_options: draft.options.role_options.filter((o) => o.trim()),
+        interview_options: draft.options.interview_options.filter((o) => o.trim()),
+      },
+    }
+    const parsed = flowContentSchema.safeParse(content)
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0]
+      setError(`${issue.path.join(".")}: ${issue.message}`)
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      const { version } = await fetchJson("/api/admin/content", contentVersionResponseSchema, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content: parsed.data, note: note || undefined }),
+      })
+      setBaseVersion(version.version)
+      setNote("")
+      await loadVersions()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save draft")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const setCopy = (key: CopyKey, value: string) =>
+    setDraft((d) => d && { ...d, copy: { ...d.copy, [locale]: { ...d.copy[locale], [key]: value } } })
+  const catalog = MESSAGES[locale].flow
+  const setOptions = (patch: Partial<FlowOptions>) =>
+    setDraft((d) => d && { ...d, options: { ...d.options, ...patch } })
+  const setReason = (index: number, patch: Partial<FlowOptions["reasons"][number]>) =>
+    setDraft(
+      (d) =>
+        d && {
+          ...d,
+          options: {
+            ...d.options,
+            reasons: d.options.reasons.map((r, i) => (i === index ? { ...r, ...patch } : r)),
+          },
+        },
+    )
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-6 py-8 border-b border-gray-200 bg-gradient-to-r from-purple-50 to-indigo-50">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Cancellation flow content</h1>
+                <p className="mt-1 text-sm text-gray-600">
+                  {baseVersion ? `Editing from version ${baseVersion}` : "Editing from the built-in content"}
+                </p>
+              </div>
+              <select
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-md bg-white"
+                aria-label="Language"
+              >
+                {LOCALES.map((option) => (
+                  <option key={option} value={option}>
+                    {LOCALE_NAMES[option]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {error && (
+            <div className="px-6 py-6 text-sm text-red-700 bg-red-50 border-b border-red-200">{error}</div>
+          )}
+
+          <div className="px-6 py-6 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Versions</h2>
+            {versions.length === 0 ? (
+              <p className="text-sm text-gray-500">No versions saved yet. Users see the built-in content.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <tbody>
+                  {versions.map((version) => (
+                    <tr key={version.version} className="border-b border-gray-100 text-gray-900">
+                      <td className="py-2 pr-4 font-medium">v{version.version}</td>
+                      <td className="py-2 pr-4 text-gray-600">{version.note ?? ""}</td>
+                      <td className="py-2 pr-4 text-gray-500">
+                        {version.current
+                          ? "Live"
+                          : version.published_at
+                            ? "Previously published"
+                            : "Draft"}
+                      </td>
+                      <td className="py-2 text-right space-x-2">
+                        <Button variant="outline" size="sm" onClick={() => openVersion(version.version)}>
+                          Edit
+                        </Button>
+                        {!version.current && (
+                          <Button size="sm" onClick={() => publish(version.version)}>
+                            Publish
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {!draft ? (
+            !error && <div className="px-6 py-6 text-sm text-gray-500">Loading content...</div>
+          ) : (
+            <div className="grid lg:grid-cols-2 gap-8 px-6 py-6">
+              <div className="space-y-8">
+                <section className="space-y-4">
+                  <h2 className="text-lg font-medium text-gray-900">Answer options</h2>
+                  <OptionListField
+                    label="Roles applied and companies emailed"
+                    value={draft.options.role_options}
+                    onChange={(role_options) => setOptions({ role_options })}
+                  />
+                  <OptionListField
+                    label="Companies interviewed"
+                    value={draft.options.interview_options}
+                    onChange={(interview_options) => setOptions({ interview_options })}
+                  />
+                  <label className="block text-sm">
+                    <span className="text-gray-700">Minimum feedback length</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={500}
+                      value={draft.options.min_feedback_length}
+                      onChange={(e) => setOptions({ min_feedback_length: Number(e.target.value) })}
+                      className="mt-1 block w-32 p-2 border border-gray-300 rounded-md"
+                    />
+                  </label>
+
+                  <div className="space-y-2">
+                    <span className="text-sm text-gray-700">Cancellation reasons</span>
+                    {draft.options.reasons.map((reason, index) => (
+                      <div key={index} className="flex gap-2">
+                        <input
+                          value={reason.label}
+                          onChange={(e) => setReason(index, { label: e.target.value })}
+                          className="flex-1 p-2 text-sm border border-gray-300 rounded-md"
+                          aria-label="Reason"
+                        />
+                        {locale !== DEFAULT_LOCALE && (
+                          <input
+                            value={reason.translations[locale] ?? ""}
+                            onChange={(e) =>
+                              setReason(index, { translations: { ...reason.translations, [locale]: e.target.value } })
+                            }
+                            placeholder={`In ${LOCALE_NAMES[locale]}`}
+                            className="flex-1 p-2 text-sm border border-gray-300 rounded-md"
+                            aria-label={`Reason in ${LOCALE_NAMES[locale]}`}
+                          />
+                        )}
+                        <select
+                          value={reason.follow_up ?? ""}
+                          onChange={(e) =>
+                            setReason(index, { follow_up: reasonFollowUpSchema.safeParse(e.target.value).data ?? null })
+                          }
+                          className="p-2 text-sm border border-gray-300 rounded-md bg-white"
+                          aria-label="Follow-up question"
+                        >
+                          <option value="">No follow-up</option>
+                          {reasonFollowUpSchema.options.map((step) => (
+                            <option key={step} value={step}>
+                              {step}
+                            </option>
+                          ))}
+                        </select>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            setOptions({ reasons: draft.options.reasons.filter((_, i) => i !== index) })
+                          }
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        setOptions({ reasons: [...draft.options.reasons, { label: "", follow_up: "retention-other", translations: {} }] })
+                      }
+                    >
+                      Add reason
+                    </Button>
+                  </div>
+                </section>
+
+                <section className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-medium text-gray-900">Copy</h2>
+                    <input
+                      value={filter}
+                      onChange={(e) => setFilter(e.target.value)}
+                      placeholder="Filter messages..."
+                      className="p-2 text-sm border border-gray-300 rounded-md"
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Editing the {LOCALE_NAMES[locale]} copy. Words in braces, like {"{date}"}, are filled in when shown.
+                  </p>
+                  {COPY_KEYS.filter((key) => key.includes(filter) || catalog[key].includes(filter)).map(
+                    (key) => (
+                      <label key={key} className="block text-sm">
+                        <span className="font-mono text-xs text-gray-500">{key}</span>
+                        <textarea
+                          value={draft.copy[locale]?.[key] ?? catalog[key]}
+                          onChange={(e) => setCopy(key, e.target.value)}
+                          rows={2}
+                          className="mt-1 w-full p-2 border border-gray-300 rounded-md"
+                        />
+                      </label>
+                    ),
+                  )}
+                </section>
+
+                <div className="flex gap-3 items-center sticky bottom-0 bg-white py-4 border-t border-gray-200">
+                  <input
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="What changed?"
+                    maxLength={200}
+                    className="flex-1 p-2 text-sm border border-gray-300 rounded-md"
+                  />
+                  <Button onClick={saveDraft} disabled={saving}>
+                    {saving ? "Saving..." : "Save as draft"}
+                  </Button>
+                </div>
+              </div>
+
+              <div className="lg:sticky lg:top-4 self-start">
+                <Preview content={draft} locale={locale} />
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
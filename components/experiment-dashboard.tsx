@@ -0,0 +1,249 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Bar, BarChart, CartesianGrid, ErrorBar, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { describeDiscount } from "@/lib/offers"
+import { errorResponseSchema } from "@/lib/cancellation-api"
+import {
+  experimentFunnelResponseSchema,
+  experimentResultsResponseSchema,
+  experimentsResponseSchema,
+  type ArmFunnel,
+  type ArmResult,
+  type ExperimentFunnelResponse,
+  type ExperimentResultsResponse,
+  type ExperimentSummary,
+  type OutcomeRate,
+} from "@/lib/experiment-api"
+
+const OUTCOMES = [
+  { key: "accepted", label: "Offer accepted", color: "#8952fc" },
+  { key: "cancelled", label: "Cancelled", color: "#dc2626" },
+  { key: "abandoned", label: "Abandoned", color: "#9ca3af" },
+] as const
+
+async function fetchJson<T>(path: string, schema: { parse: (data: unknown) => T }): Promise<T> {
+  const res = await fetch(path, { credentials: "same-origin" })
+  const data = await res.json()
+  if (!res.ok) {
+    const parsed = errorResponseSchema.safeParse(data)
+    throw new Error(parsed.success ? parsed.data.message : `HTTP ${res.status}`)
+  }
+  return schema.parse(data)
+}
+
+function formatRate({ rate, ci_low, ci_high }: OutcomeRate) {
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`
+  return `${pct(rate)} (${pct(ci_low)}–${pct(ci_high)})`
+}
+
+function formatShare(count: number, total: number) {
+  return total ? `${((count / total) * 100).toFixed(1)}%` : "–"
+}
+
+// Rates as percentages, with the asymmetric Wilson interval as [below, above] error bars
+function toChartData(arms: ArmResult[]) {
+  return arms.map((arm) => {
+    const row: Record<string, unknown> = { arm: arm.key }
+    for (const { key } of OUTCOMES) {
+      const { rate, ci_low, ci_high } = arm[key]
+      row[key] = rate * 100
+      row[`${key}Error`] = [(rate - ci_low) * 100, (ci_high - rate) * 100]
+    }
+    return row
+  })
+}
+
+export default function ExperimentDashboard() {
+  const [experiments, setExperiments] = useState<ExperimentSummary[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [results, setResults] = useState<ExperimentResultsResponse | null>(null)
+  const [funnel, setFunnel] = useState<ExperimentFunnelResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchJson("/api/admin/experiments", experimentsResponseSchema)
+      .then(({ experiments }) => {
+        setExperiments(experiments)
+        setSelectedId(experiments[0]?.id ?? null)
+      })
+      .catch((err) => setError(err.message))
+  }, [])
+
+  useEffect(() => {
+    if (!selectedId) return
+    setResults(null)
+    fetchJson(`/api/admin/experiments/${selectedId}/results`, experimentResultsResponseSchema)
+      .then(setResults)
+      .catch((err) => setError(err.message))
+
+    setFunnel(null)
+    fetchJson(`/api/admin/experiments/${selectedId}/funnel`, experimentFunnelResponseSchema)
+      .then(setFunnel)
+      .catch((err) => setError(err.message))
+  }, [selectedId])
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-6 py-8 border-b border-gray-200 bg-gradient-to-r from-purple-50 to-indigo-50">
+            <div className="flex items-center justify-between">
+              <h1 className="text-2xl font-bold text-gray-900">Experiment results</h1>
+              {experiments.length > 0 && (
+                <select
+                  value={selectedId ?? ""}
+                  onChange={(e) => setSelectedId(e.target.value)}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-md bg-white"
+                  aria-label="Experiment"
+                >
+                  {experiments.map((experiment) => (
+                    <option key={experiment.id} value={experiment.id}>
+                      {experiment.name}{experiment.running ? " (running)" : ""}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </div>
+
+          {error && (
+            <div className="px-6 py-6 text-sm text-red-700 bg-red-50 border-b border-red-200">{error}</div>
+          )}
+
+          {!error && !results && (
+            <div className="px-6 py-6 text-sm text-gray-500">Loading results...</div>
+          )}
+
+          {results && (
+            <>
+              <div className="px-6 py-6 border-b border-gray-200">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">Outcome rates by variant</h2>
+                <div className="h-80">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={toChartData(results.arms)}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                      <XAxis dataKey="arm" />
+                      <YAxis unit="%" domain={[0, 100]} />
+                      <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+                      <Legend />
+                      {OUTCOMES.map(({ key, label, color }) => (
+                        <Bar key={key} dataKey={key} name={label} fill={color}>
+                          <ErrorBar dataKey={`${key}Error`} width={4} stroke="#374151" />
+                        </Bar>
+                      ))}
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              <div className="px-6 py-6 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 pr-4 font-medium">Variant</th>
+                      <th className="py-2 pr-4 font-medium">Offer</th>
+                      <th className="py-2 pr-4 font-medium">Sessions</th>
+                      <th className="py-2 pr-4 font-medium">Accepted</th>
+                      <th className="py-2 pr-4 font-medium">Cancelled</th>
+                      <th className="py-2 pr-4 font-medium">Abandoned</th>
+                      <th className="py-2 font-medium">Cancel rate vs control</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {results.arms.map((arm) => (
+                      <tr key={arm.key} className="border-b border-gray-100 text-gray-900">
+                        <td className="py-3 pr-4 font-medium">{arm.key}</td>
+                        <td className="py-3 pr-4">{arm.offer ? describeDiscount(arm.offer) : "None"}</td>
+                        <td className="py-3 pr-4">
+                          {arm.sessions}
+                          {arm.in_progress > 0 && (
+                            <span className="text-gray-500"> ({arm.in_progress} in progress)</span>
+                          )}
+                        </td>
+                        <td className="py-3 pr-4">{arm.accepted.count} · {formatRate(arm.accepted)}</td>
+                        <td className="py-3 pr-4">
+                          {arm.cancelled.count} · {formatRate(arm.cancelled)}
+                          {arm.reactivated > 0 && (
+                            <span className="text-gray-500"> ({arm.reactivated} reactivated)</span>
+                          )}
+                        </td>
+                        <td className="py-3 pr-4">{arm.abandoned.count} · {formatRate(arm.abandoned)}</td>
+                        <td className="py-3">
+                          {arm.vs_control ? (
+                            <span className={arm.vs_control.significant ? "font-semibold text-green-700" : "text-gray-500"}>
+                              {arm.vs_control.difference >= 0 ? "+" : ""}
+                              {(arm.vs_control.difference * 100).toFixed(1)} pts, p = {arm.vs_control.p_value.toFixed(3)}
+                              {arm.vs_control.significant ? " (significant)" : ""}
+                            </span>
+                          ) : (
+                            <span className="text-gray-400">Control</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="mt-4 text-xs text-gray-500">
+                  Rates show 95% Wilson confidence intervals. Each variant is compared with the first (control)
+                  variant using a two-proportion z-test at p &lt; 0.05.
+                </p>
+              </div>
+
+              {funnel && (
+                <div className="px-6 py-6 border-t border-gray-200">
+                  <h2 className="text-lg font-medium text-gray-900 mb-4">Funnel by variant</h2>
+                  {funnel.arms.map((arm) => (
+                    <FunnelTable key={arm.key} arm={arm} />
+                  ))}
+                  <p className="mt-4 text-xs text-gray-500">
+                    Counts are sessions. Reached is the share of the variant&apos;s sessions that saw the step; the
+                    other columns are shares of the sessions that reached it.
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function FunnelTable({ arm }: { arm: ArmFunnel }) {
+  return (
+    <div className="mb-6 overflow-x-auto">
+      <h3 className="text-sm font-medium text-gray-900 mb-2">
+        {arm.key} <span className="font-normal text-gray-500">· {arm.sessions} sessions</span>
+      </h3>
+      {arm.steps.length === 0 ? (
+        <p className="text-sm text-gray-500">No funnel events yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-2 pr-4 font-medium">Step</th>
+              <th className="py-2 pr-4 font-medium">Reached</th>
+              <th className="py-2 pr-4 font-medium">Completed</th>
+              <th className="py-2 pr-4 font-medium">Went back</th>
+              <th className="py-2 pr-4 font-medium">Abandoned</th>
+              <th className="py-2 font-medium">Offer seen</th>
+            </tr>
+          </thead>
+          <tbody>
+            {arm.steps.map((step) => (
+              <tr key={step.step} className="border-b border-gray-100 text-gray-900">
+                <td className="py-2 pr-4 font-medium">{step.step}</td>
+                <td className="py-2 pr-4">{step.viewed} · {formatShare(step.viewed, arm.sessions)}</td>
+                <td className="py-2 pr-4">{step.completed} · {formatShare(step.completed, step.viewed)}</td>
+                <td className="py-2 pr-4">{step.back} · {formatShare(step.back, step.viewed)}</td>
+                <td className="py-2 pr-4">{step.abandoned} · {formatShare(step.abandoned, step.viewed)}</td>
+                <td className="py-2">{step.offer_impressions || "–"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
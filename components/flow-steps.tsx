@@ -0,0 +1,793 @@
+"use client"
+
+// Views for each step of the cancellation flow, looked up by step in STEP_VIEWS.
+// Navigation, validation and saving live in the flow definition (lib/flow.ts); views only render and report input.
+// Copy and answer options come from the flow content (lib/flow-content.ts), so views hold no text of their own.
+import { Fragment, useMemo, useState, type ComponentType, type ReactNode } from "react"
+import { Check, ChevronsUpDown } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import type { Locale } from "@/lib/i18n"
+import { CURRENCIES, currencySymbol, formatMoney, type Currency } from "@/lib/money"
+import { describeOffer, reasonLabel, type CopyKey } from "@/lib/flow-content"
+import type { DownsellOffer } from "@/lib/offers"
+import type { FlowStep } from "@/lib/cancellation-api"
+import type { FlowContent } from "@/lib/content-api"
+import type { FlowOutcome, FlowState } from "@/lib/flow"
+import { findVisa, OTHER_VISA_CODE, VISAS, type Visa } from "@/lib/visas"
+
+type SurveyData = FlowState["surveyData"]
+type RetentionData = FlowState["retentionData"]
+
+export interface StepViewProps {
+  state: FlowState
+  update: (patch: Partial<FlowState>) => void
+  updateSurvey: <K extends keyof SurveyData>(field: K, value: SurveyData[K]) => void
+  updateRetention: <K extends keyof RetentionData>(field: K, value: RetentionData[K]) => void
+  // Leave the step, applying any last answer first
+  next: (patch?: Partial<FlowState>) => void
+  canContinue: boolean
+  content: FlowContent
+  locale: Locale
+  currency: Currency // The subscription's
+  // Copy for a message id in the user's language, with its placeholders filled in
+  t: (key: CopyKey, values?: Record<string, string | number>) => string
+  offer: DownsellOffer | null
+  acceptOffer: () => void
+  // Close the modal, with the outcome when the flow reached one
+  close: (outcome?: FlowOutcome) => void
+  periodEnd: string | null
+  daysLeft: number | null
+}
+
+// Fills placeholders with elements, for copy that highlights part of a sentence
+function interpolate(text: string, values: Record<string, ReactNode>): ReactNode {
+  return text.split(/(\{\w+\})/).map((part, i) => {
+    const name = part.match(/^\{(\w+)\}$/)?.[1]
+    return <Fragment key={i}>{name && name in values ? values[name] : part}</Fragment>
+  })
+}
+
+// Reusable button component for option selection
+function OptionButton({
+  option,
+  isSelected,
+  onClick,
+  variant = "default",
+}: {
+  option: string
+  isSelected: boolean
+  onClick: () => void
+  variant?: "default" | "primary"
+}) {
+  return (
+    <Button
+      onClick={onClick}
+      className={`px-4 py-2 rounded-full border-2 transition-all ${
+        isSelected
+          ? variant === "primary"
+            ? "bg-primary text-primary-foreground border-purple-600 shadow-md"
+            : "bg-foreground text-background border-gray-800 shadow-md"
+          : "bg-card text-muted-foreground border-border hover:border-gray-400 hover:shadow-sm"
+      }`}
+    >
+      {option}
+    </Button>
+  )
+}
+
+function OptionQuestion({
+  question,
+  options,
+  value,
+  onChange,
+  variant,
+  className = "text-foreground mb-3",
+}: {
+  question: string
+  options: string[]
+  value: string | null
+  onChange: (value: string) => void
+  variant?: "default" | "primary"
+  className?: string
+}) {
+  return (
+    <div>
+      <p className={className}>{question}</p>
+      <div className="flex gap-3 flex-wrap">
+        {options.map((option) => (
+          <OptionButton
+            key={option}
+            option={option}
+            isSelected={value === option}
+            onClick={() => onChange(option)}
+            variant={variant}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// Dark "Complete cancellation" style button on the retention steps
+function RetentionContinueButton({
+  next,
+  canContinue,
+  activeClassName = "bg-foreground text-background hover:bg-gray-900",
+  children,
+}: Pick<StepViewProps, "next" | "canContinue"> & { activeClassName?: string; children: ReactNode }) {
+  return (
+    <Button
+      onClick={() => next()}
+      disabled={!canContinue}
+      className={`flex-1 transition-colors py-3 ${
+        canContinue ? activeClassName : "bg-gray-300 text-muted-foreground cursor-not-allowed"
+      }`}
+    >
+      {children}
+    </Button>
+  )
+}
+
+function SelectedAnswer({ children }: { children: ReactNode }) {
+  return (
+    <div className="flex items-center gap-2">
+      <div className="w-4 h-4 bg-foreground rounded-full flex items-center justify-center">
+        <div className="w-2 h-2 bg-card rounded-full" />
+      </div>
+      <span>{children}</span>
+    </div>
+  )
+}
+
+// The reason picked on the previous step, in the user's language
+function SelectedReason({ state, content, locale }: Pick<StepViewProps, "state" | "content" | "locale">) {
+  const label = state.retentionData.cancellationReason
+  const reason = content.options.reasons.find((r) => r.label === label)
+  return <SelectedAnswer>{reason ? reasonLabel(reason, locale) : label}</SelectedAnswer>
+}
+
+function YesNoRadios({
+  name,
+  value,
+  onChange,
+  t,
+}: {
+  name: string
+  value: boolean | null
+  onChange: (value: boolean) => void
+  t: StepViewProps["t"]
+}) {
+  return (
+    <div className="space-y-3">
+      {[true, false].map((option) => (
+        <label
+          key={String(option)}
+          className="flex items-center gap-3 cursor-pointer hover:bg-muted/50 p-3 rounded transition-colors"
+        >
+          <input
+            type="radio"
+            name={name}
+            checked={value === option}
+            onChange={() => onChange(option)}
+            className="w-4 h-4"
+          />
+          <span>{t(option ? "common.yes" : "common.no")}</span>
+        </label>
+      ))}
+    </div>
+  )
+}
+
+function FeedbackTextarea({
+  value,
+  onChange,
+  placeholder,
+  content,
+  t,
+}: {
+  value: string
+  onChange: (value: string) => void
+  placeholder: string
+} & Pick<StepViewProps, "content" | "t">) {
+  return (
+    <div className="relative">
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full h-32 p-4 border border-border rounded-md resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+        placeholder={placeholder}
+        maxLength={500}
+      />
+      <div className="absolute bottom-3 right-3 text-sm text-muted-foreground bg-card px-2 rounded">
+        {t("common.min-characters", { min: content.options.min_feedback_length, count: value.length })}
+      </div>
+    </div>
+  )
+}
+
+function JobQuestionStep({ next, t }: StepViewProps) {
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <h2 className="text-3xl font-bold italic text-foreground">{t("job-question.greeting")}</h2>
+        <h3 className="text-2xl font-bold italic text-foreground">{t("job-question.title")}</h3>
+        <p className="text-2xl font-bold italic text-foreground">{t("job-question.question")}</p>
+        <p className="text-xl italic text-foreground">{t("job-question.body")}</p>
+      </div>
+
+      <div className="space-y-4">
+        <Button
+          onClick={() => next({ hasJob: true })}
+          className="w-full bg-primary text-primary-foreground hover:bg-primary/90 transition-colors py-3"
+        >
+          {t("job-question.yes")}
+        </Button>
+        <Button
+          onClick={() => next({ hasJob: false })}
+          className="w-full bg-secondary text-secondary-foreground hover:bg-muted transition-colors py-3"
+        >
+          {t("job-question.no")}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+// Survey step for users who found jobs
+function SurveyStep({ state, updateSurvey, next, canContinue, content, t }: StepViewProps) {
+  const { surveyData } = state
+  const { role_options, interview_options } = content.options
+  return (
+    <div className="space-y-8">
+      <div>
+        <h2 className="text-3xl font-bold text-foreground">{t("survey.title")}</h2>
+      </div>
+
+      <div className="space-y-6">
+        <div>
+          <p className="text-foreground mb-3">{t("survey.found-with-mm")}</p>
+          <div className="flex gap-4">
+            <OptionButton
+              option={t("common.yes")}
+              isSelected={surveyData.foundJobWithMM === true}
+              onClick={() => updateSurvey("foundJobWithMM", true)}
+            />
+            <OptionButton
+              option={t("common.no")}
+              isSelected={surveyData.foundJobWithMM === false}
+              onClick={() => updateSurvey("foundJobWithMM", false)}
+            />
+          </div>
+        </div>
+
+        <OptionQuestion
+          question={t("survey.roles-applied")}
+          options={role_options}
+          value={surveyData.rolesApplied}
+          onChange={(option) => updateSurvey("rolesApplied", option)}
+        />
+        <OptionQuestion
+          question={t("survey.companies-emailed")}
+          options={role_options}
+          value={surveyData.companiesEmailed}
+          onChange={(option) => updateSurvey("companiesEmailed", option)}
+        />
+        <OptionQuestion
+          question={t("survey.companies-interviewed")}
+          options={interview_options}
+          value={surveyData.companiesInterviewed}
+          onChange={(option) => updateSurvey("companiesInterviewed", option)}
+        />
+      </div>
+
+      <Button onClick={() => next()} disabled={!canContinue} variant="outline" className="w-full py-3">
+        {t("common.continue")}
+      </Button>
+    </div>
+  )
+}
+
+function FeedbackStep({ state, update, next, canContinue, content, t }: StepViewProps) {
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <h2 className="text-3xl font-bold text-foreground">{t("feedback.title")}</h2>
+        <p className="text-muted-foreground">{t("feedback.body")}</p>
+      </div>
+
+      <FeedbackTextarea
+        value={state.feedback}
+        onChange={(feedback) => update({ feedback })}
+        placeholder={t("feedback.placeholder")}
+        content={content}
+        t={t}
+      />
+
+      <Button onClick={() => next()} disabled={!canContinue} variant="outline" className="w-full py-3">
+        {t("common.continue")}
+      </Button>
+    </div>
+  )
+}
+
+function CongratulationsStep({ state, update, next, canContinue, t }: StepViewProps) {
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <h2 className="text-3xl font-bold text-foreground">{t("congratulations.title")}</h2>
+        <h3 className="text-3xl font-bold italic text-foreground">{t("congratulations.subtitle")}</h3>
+        <p className="text-muted-foreground whitespace-pre-line">{t("congratulations.body")}</p>
+        <p className="text-muted-foreground text-sm">{t("visa.lawyer-question")}</p>
+      </div>
+
+      <YesNoRadios name="lawyer" value={state.hasLawyer} onChange={(hasLawyer) => update({ hasLawyer })} t={t} />
+
+      <Button onClick={() => next()} disabled={!canContinue} variant="outline" className="w-full py-3">
+        {t("common.complete-cancellation")}
+      </Button>
+    </div>
+  )
+}
+
+// Picking an answer moves straight on; the button repeats the current answer
+function VisaSupportStep({ state, next, canContinue, t }: StepViewProps) {
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <h2 className="text-3xl font-bold text-foreground">{t("visa.title")}</h2>
+        <p className="text-muted-foreground text-sm">{t("visa.lawyer-question")}</p>
+      </div>
+
+      <YesNoRadios name="visa-lawyer" value={state.hasLawyer} onChange={(hasLawyer) => next({ hasLawyer })} t={t} />
+
+      <Button onClick={() => next()} disabled={!canContinue} variant="outline" className="w-full py-3">
+        {t("common.complete-cancellation")}
+      </Button>
+    </div>
+  )
+}
+
+// Catalog visas grouped by country, in catalog order
+const VISAS_BY_COUNTRY = VISAS.reduce<[string, Visa[]][]>((groups, visa) => {
+  const group = groups.find(([country]) => country === visa.country)
+  if (group) group[1].push(visa)
+  else groups.push([visa.country, [visa]])
+  return groups
+}, [])
+
+// Searchable by name, code and alias; a visa that isn't listed is picked as "other" and typed in
+function VisaPicker({ state, update, locale, t }: Pick<StepViewProps, "state" | "update" | "locale" | "t">) {
+  const [open, setOpen] = useState(false)
+  const [search, setSearch] = useState("")
+  const regions = useMemo(() => new Intl.DisplayNames([locale], { type: "region" }), [locale])
+  const selected = state.visaCode ? findVisa(state.visaCode) : null
+  const isOther = state.visaCode === OTHER_VISA_CODE
+
+  const pick = (visa: Visa) => {
+    update({ visaCode: visa.code, visaType: visa.name })
+    setOpen(false)
+  }
+
+  // What was searched for is a good start for the typed answer
+  const pickOther = () => {
+    update({ visaCode: OTHER_VISA_CODE, visaType: isOther ? state.visaType : search })
+    setOpen(false)
+  }
+
+  return (
+    <div className="space-y-3">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full p-4 flex items-center justify-between border border-border rounded-md text-left focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+          >
+            <span className={selected || isOther ? "text-foreground" : "text-muted-foreground"}>
+              {selected?.name ?? (isOther ? t("visa.other") : t("visa.placeholder"))}
+            </span>
+            <ChevronsUpDown className="w-4 h-4 opacity-50" />
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-(--radix-popover-trigger-width) p-0" align="start">
+          <Command>
+            <CommandInput value={search} onValueChange={setSearch} placeholder={t("visa.search-placeholder")} />
+            <CommandList>
+              <CommandEmpty>{t("visa.no-results")}</CommandEmpty>
+              {VISAS_BY_COUNTRY.map(([country, visas]) => (
+                <CommandGroup key={country} heading={regions.of(country)}>
+                  {visas.map((visa) => (
+                    <CommandItem
+                      key={visa.code}
+                      value={visa.code}
+                      keywords={[visa.name, ...visa.aliases]}
+                      onSelect={() => pick(visa)}
+                    >
+                      <Check className={visa.code === state.visaCode ? "opacity-100" : "opacity-0"} />
+                      {visa.name}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              ))}
+              <CommandGroup forceMount>
+                <CommandItem value={OTHER_VISA_CODE} forceMount onSelect={pickOther}>
+                  <Check className={isOther ? "opacity-100" : "opacity-0"} />
+                  {t("visa.other")}
+                </CommandItem>
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {isOther && (
+        <input
+          type="text"
+          value={state.visaType}
+          onChange={(e) => update({ visaType: e.target.value })}
+          className="w-full p-4 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+          placeholder={t("visa.other-placeholder")}
+          maxLength={100}
+          autoFocus
+        />
+      )}
+    </div>
+  )
+}
+
+function VisaDetailsStep({ state, update, next, canContinue, locale, t }: StepViewProps) {
+  const hasLawyer = state.step === "visa-yes"
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <h2 className="text-3xl font-bold text-foreground">{t("visa.title")}</h2>
+        <p className="text-muted-foreground text-sm">{t("visa.lawyer-question")}</p>
+        <SelectedAnswer>{t(hasLawyer ? "common.yes" : "common.no")}</SelectedAnswer>
+        {!hasLawyer && <p className="text-muted-foreground">{t("visa.partner")}</p>}
+        <p className="text-foreground">
+          {t(hasLawyer ? "visa.type-question-lawyer" : "visa.type-question-no-lawyer")}
+        </p>
+      </div>
+
+      <VisaPicker state={state} update={update} locale={locale} t={t} />
+
+      <Button onClick={() => next()} disabled={!canContinue} variant="outline" className="w-full py-3">
+        {t("common.complete-cancellation")}
+      </Button>
+    </div>
+  )
+}
+
+function SuccessStep({ close, t }: StepViewProps) {
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4 text-center">
+        <h2 className="text-3xl font-bold text-foreground">{t("success.title")}</h2>
+        <p className="text-muted-foreground">{t("success.body")}</p>
+        <p className="text-muted-foreground">{t("success.congrats")}</p>
+      </div>
+
+      <Button onClick={() => close("cancelled")} className="w-full bg-primary hover:bg-primary/90 text-primary-foreground py-3">
+        {t("common.finish")}
+      </Button>
+    </div>
+  )
+}
+
+function SuccessAltStep({ close, periodEnd, t }: StepViewProps) {
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <h2 className="text-3xl font-bold text-foreground">{t("success-alt.title")}</h2>
+
+        <div className="flex items-start gap-3 p-4 bg-muted/30 rounded-lg">
+          <img
+            src="/professional-headshot.png"
+            alt={t("success-alt.contact-name")}
+            className="w-10 h-10 rounded-full"
+          />
+          <div>
+            <p className="font-semibold text-foreground">{t("success-alt.contact-name")}</p>
+            <p className="text-sm text-muted-foreground">&lt;{t("success-alt.contact-email")}&gt;</p>
+          </div>
+        </div>
+
+        <p className="text-gray-800">{t("success-alt.reach-out")}</p>
+        <p className="text-muted-foreground">{t("success-alt.support")}</p>
+        <p className="text-muted-foreground">
+          {t("success-alt.period-end", { date: periodEnd ?? "" })} {t("common.access-until-end")}
+        </p>
+        <p className="text-muted-foreground">{t("common.reactivate")}</p>
+      </div>
+
+      <Button onClick={() => close("cancelled")} className="w-full bg-primary hover:bg-primary/90 text-primary-foreground py-3">
+        {t("common.finish")}
+      </Button>
+    </div>
+  )
+}
+
+function RetentionOfferStep({ offer, acceptOffer, next, content, locale, t }: StepViewProps) {
+  // Only reachable when the arm has an offer
+  if (!offer) return null
+  const label = describeOffer(content, locale, offer.discount)
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <h2 className="text-3xl font-bold text-foreground">{t("offer.title")}</h2>
+        <p className="text-muted-foreground">{t("offer.body")}</p>
+      </div>
+
+      <div className="bg-purple-100 rounded-2xl p-6 border border-purple-200">
+        <div className="text-center space-y-2">
+          <p className="text-lg font-semibold text-foreground">
+            {interpolate(t(offer.term.type === "free_months" ? "offer.headline-free-months" : "offer.headline"), {
+              offer: <span className="font-bold text-purple-600">{label}</span>,
+            })}
+          </p>
+          {/* Free months are a break from paying, not a new price */}
+          {offer.term.type === "free_months" ? (
+            <>
+              <p className="text-3xl font-bold text-purple-600">{label}</p>
+              <p className="text-muted-foreground">
+                {t("offer.then", { price: formatMoney(offer.term.priceAfter, locale) })}
+              </p>
+            </>
+          ) : (
+            <>
+              <p className="text-3xl font-bold text-purple-600">
+                {t("common.per-month", { price: formatMoney(offer.term.price, locale) })}
+              </p>
+              <p className="text-muted-foreground line-through">
+                {t("common.per-month", { price: formatMoney(offer.originalPrice, locale) })}
+              </p>
+            </>
+          )}
+        </div>
+        <Button
+          onClick={acceptOffer}
+          className="w-full mt-4 bg-accent hover:bg-accent/90 text-primary-foreground py-3"
+        >
+          {t("offer.accept", { offer: label })}
+        </Button>
+        <p className="text-center text-sm text-muted-foreground mt-2">{t("offer.billing-note")}</p>
+      </div>
+
+      <Button
+        onClick={() => next()}
+        className="w-full bg-card border border-border text-muted-foreground hover:bg-muted py-3"
+      >
+        {t("offer.decline")}
+      </Button>
+    </div>
+  )
+}
+
+function RetentionAcceptedStep({ offer, close, periodEnd, daysLeft, content, locale, t }: StepViewProps) {
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4 text-center">
+        <h2 className="text-3xl font-bold text-foreground">{t("accepted.title")}</h2>
+        <p className="text-gray-800">{t("accepted.subtitle")}</p>
+        <p className="text-purple-600 font-semibold">{t("accepted.together")}</p>
+        <div className="space-y-2 text-muted-foreground">
+          <p>{daysLeft === 1 ? t("accepted.day-left") : t("accepted.days-left", { days: daysLeft ?? 0 })}</p>
+          {offer && (
+            <p>
+              {offer.term.type === "free_months"
+                ? t("accepted.free-months", {
+                    date: periodEnd ?? "",
+                    offer: describeOffer(content, locale, offer.discount),
+                    price: formatMoney(offer.term.priceAfter, locale),
+                  })
+                : t("accepted.new-price", { date: periodEnd ?? "", price: formatMoney(offer.term.price, locale) })}
+            </p>
+          )}
+          <p className="text-sm italic">{t("accepted.cancel-anytime")}</p>
+        </div>
+      </div>
+
+      <Button onClick={() => close("offer_accepted")} className="w-full bg-primary hover:bg-primary/90 text-primary-foreground py-3">
+        {t("accepted.button")}
+      </Button>
+    </div>
+  )
+}
+
+// Retention survey - similar to main survey but for retention flow
+function RetentionSurveyStep(props: StepViewProps) {
+  const { state, updateRetention, content, t } = props
+  const { retentionData } = state
+  const { role_options, interview_options } = content.options
+  return (
+    <div className="space-y-8">
+      <div>
+        <h2 className="text-3xl font-bold text-foreground">{t("retention-survey.title")}</h2>
+      </div>
+
+      <div className="space-y-6">
+        <OptionQuestion
+          question={t("retention-survey.roles-applied")}
+          options={role_options}
+          value={retentionData.rolesApplied}
+          onChange={(option) => updateRetention("rolesApplied", option)}
+          variant="primary"
+          className="text-muted-foreground text-sm mb-3"
+        />
+        <OptionQuestion
+          question={t("retention-survey.companies-emailed")}
+          options={role_options}
+          value={retentionData.companiesEmailed}
+          onChange={(option) => updateRetention("companiesEmailed", option)}
+          variant="primary"
+        />
+        <OptionQuestion
+          question={t("retention-survey.companies-interviewed")}
+          options={interview_options}
+          value={retentionData.companiesInterviewed}
+          onChange={(option) => updateRetention("companiesInterviewed", option)}
+          variant="primary"
+          className="text-muted-foreground text-sm mb-3"
+        />
+      </div>
+
+      <div className="flex gap-3">
+        <RetentionContinueButton {...props} activeClassName="bg-red-600 hover:bg-red-700 text-white">
+          {t("common.continue")}
+        </RetentionContinueButton>
+      </div>
+    </div>
+  )
+}
+
+function RetentionReasonStep(props: StepViewProps) {
+  const { state, updateRetention, content, locale, t } = props
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <h2 className="text-3xl font-bold text-foreground">{t("reason.title")}</h2>
+        <p className="text-muted-foreground">{t("reason.body")}</p>
+        <p className="text-destructive text-sm">{t("reason.required")}</p>
+      </div>
+
+      <div className="space-y-3">
+        {content.options.reasons.map((reason) => (
+          <label
+            key={reason.label}
+            className="flex items-center gap-3 cursor-pointer hover:bg-muted/50 p-3 rounded transition-colors"
+          >
+            <input
+              type="radio"
+              name="cancellation-reason"
+              checked={state.retentionData.cancellationReason === reason.label}
+              onChange={() => updateRetention("cancellationReason", reason.label)}
+              className="w-4 h-4"
+            />
+            <span>{reasonLabel(reason, locale)}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex gap-3">
+        <RetentionContinueButton {...props}>{t("common.complete-cancellation")}</RetentionContinueButton>
+      </div>
+    </div>
+  )
+}
+
+function RetentionPriceStep(props: StepViewProps) {
+  const { state, updateRetention, locale, currency, t } = props
+  const { minorUnits } = CURRENCIES[currency]
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <h2 className="text-3xl font-bold text-foreground">{t("reason.title")}</h2>
+        <p className="text-muted-foreground">{t("reason.body")}</p>
+        <SelectedReason {...props} />
+        <p className="text-foreground">{t("retention-price.question")}</p>
+      </div>
+
+      <div className="relative">
+        <span className="absolute left-4 top-1/2 transform -translate-y-1/2 text-muted-foreground">
+          {currencySymbol(currency, locale)}
+        </span>
+        <input
+          type="number"
+          min="0"
+          step={10 ** -minorUnits}
+          value={state.retentionData.maxPrice}
+          onChange={(e) => updateRetention("maxPrice", e.target.value)}
+          className="w-full pl-12 pr-4 py-4 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+          placeholder={(0).toFixed(minorUnits)}
+        />
+      </div>
+
+      <div className="flex gap-3">
+        <RetentionContinueButton {...props}>{t("common.complete-cancellation")}</RetentionContinueButton>
+      </div>
+    </div>
+  )
+}
+
+// Question and placeholder copy for each reason's free-text follow-up
+const REASON_PROMPTS: Partial<Record<FlowStep, { question: CopyKey; placeholder: CopyKey }>> = {
+  "retention-platform": { question: "retention-platform.question", placeholder: "retention-platform.placeholder" },
+  "retention-jobs": { question: "retention-jobs.question", placeholder: "retention-jobs.placeholder" },
+  "retention-move": { question: "retention-move.question", placeholder: "retention-move.placeholder" },
+  "retention-other": { question: "retention-other.question", placeholder: "retention-other.placeholder" },
+}
+
+function ReasonFeedbackStep(props: StepViewProps) {
+  const { state, updateRetention, content, t } = props
+  const prompt = REASON_PROMPTS[state.step]!
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <h2 className="text-3xl font-bold text-foreground">{t("reason-feedback.title")}</h2>
+        <p className="text-muted-foreground">{t("reason.body")}</p>
+        <SelectedReason {...props} />
+        <p className="text-gray-800">{t(prompt.question)}</p>
+        <p className="text-destructive text-sm">
+          {t("reason-feedback.required", { min: content.options.min_feedback_length })}
+        </p>
+      </div>
+
+      <FeedbackTextarea
+        value={state.retentionData.reasonFeedback}
+        onChange={(value) => updateRetention("reasonFeedback", value)}
+        placeholder={t(prompt.placeholder)}
+        content={content}
+        t={t}
+      />
+
+      <div className="flex gap-3">
+        <RetentionContinueButton {...props}>{t("common.complete-cancellation")}</RetentionContinueButton>
+      </div>
+    </div>
+  )
+}
+
+function RetentionFinalStep({ close, periodEnd, t }: StepViewProps) {
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <h2 className="text-3xl font-bold text-foreground">{t("final.title")}</h2>
+        <p className="text-gray-800">{t("final.body")}</p>
+        <div className="space-y-2 text-muted-foreground">
+          <p>{t("final.period-end", { date: periodEnd ?? "" })}</p>
+          <p>{t("common.access-until-end")}</p>
+          <p>{t("common.reactivate")}</p>
+        </div>
+      </div>
+
+      <Button onClick={() => close("cancelled")} className="w-full bg-primary hover:bg-primary/90 text-primary-foreground py-3">
+        {t("final.button")}
+      </Button>
+    </div>
+  )
+}
+
+export const STEP_VIEWS: Record<FlowStep, ComponentType<StepViewProps>> = {
+  "job-question": JobQuestionStep,
+  survey: SurveyStep,
+  feedback: FeedbackStep,
+  congratulations: CongratulationsStep,
+  "visa-support": VisaSupportStep,
+  "visa-yes": VisaDetailsStep,
+  "visa-no": VisaDetailsStep,
+  success: SuccessStep,
+  "success-alt": SuccessAltStep,
+  "retention-offer": RetentionOfferStep,
+  "retention-accepted": RetentionAcceptedStep,
+  "retention-survey": RetentionSurveyStep,
+  "retention-reason": RetentionReasonStep,
+  "retention-price": RetentionPriceStep,
+  "retention-platform": ReasonFeedbackStep,
+  "retention-jobs": ReasonFeedbackStep,
+  "retention-move": ReasonFeedbackStep,
+  "retention-other": ReasonFeedbackStep,
+  "retention-final": RetentionFinalStep,
+}
@@ -1,13 +1,19 @@
 "use client"
 
-import { useState, useRef, useEffect } from "react"
+import { useEffect, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
 import CancellationFlow from "./cancellation-flow"
-
-// Mock user data for UI display
-const mockUser = {
-  email: "user@example.com",
-  id: "1",
-}
+import BillingHistory from "./billing-history"
+import { LOCALES, LOCALE_NAMES, formatDate, isLocale, type Locale } from "@/lib/i18n"
+import { DEFAULT_CURRENCY, formatMoney, money, type Currency, type Money } from "@/lib/money"
+import { getMonthlyPrice } from "@/lib/pricing"
+import type { FlowOutcome } from "@/lib/flow"
+import { translate, type ProfileMessageKey } from "@/lib/messages"
+import type { ProfileData } from "@/lib/profile"
+import { errorResponseSchema } from "@/lib/cancellation-api"
+import { localeResponseSchema, type UpdateLocaleRequest } from "@/lib/locale-api"
+import { paymentMethodResponseSchema, subscriptionResponseSchema } from "@/lib/subscription-api"
+import type { Subscription, SubscriptionDiscount } from "@/types/database"
 
 type SubscriptionStatus = "active" | "cancelled" | "expired" | "trial"
 
@@ -16,107 +22,97 @@ interface SubscriptionData {
   isTrialSubscription: boolean
   cancelAtPeriodEnd: boolean
   currentPeriodEnd: string
-  monthlyPrice: number
+  monthlyPrice: Money
   isUCStudent: boolean
   hasManagedAccess: boolean
   managedOrganization: string | null
   downsellAccepted: boolean
 }
 
-type FlowStep =
-  | "job-question"
-  | "survey"
-  | "feedback"
-  | "congratulations"
-  | "visa-support"
-  | "visa-yes"
-  | "visa-no"
-  | "final-success"
-  | "final-cancelled"
-  | "retention-offer"
-  | "retention-accepted"
-  | "retention-survey"
-  | "retention-reason"
-  | "retention-price"
-  | "retention-platform"
-  | "retention-jobs"
-  | "retention-move"
-  | "retention-other"
-  | "retention-final"
+// Maps the database row onto the view model the page renders
+function toSubscriptionData(subscription: Subscription | null, downsellAccepted: boolean): SubscriptionData {
+  return {
+    status: !subscription ? "expired" : subscription.status === "cancelled" ? "cancelled" : "active",
+    isTrialSubscription: subscription?.is_trial ?? false,
+    cancelAtPeriodEnd: subscription?.status === "pending_cancellation",
+    currentPeriodEnd: subscription?.current_period_end ?? "",
+    monthlyPrice: subscription ? getMonthlyPrice(subscription) : money(0, DEFAULT_CURRENCY),
+    isUCStudent: subscription?.is_uc_student ?? false,
+    hasManagedAccess: !!subscription?.managed_organization,
+    managedOrganization: subscription?.managed_organization ?? null,
+    downsellAccepted,
+  }
+}
 
-interface SurveyData {
-  foundJobWithMM: boolean | null
-  rolesApplied: string
-  companiesEmailed: string
-  companiesInterviewed: string
+async function callApi<T>(
+  path: string,
+  schema: { parse: (data: unknown) => T },
+  method = "GET",
+  body?: unknown,
+): Promise<T> {
+  const headers: Record<string, string> = {}
+  if (body !== undefined) headers["Content-Type"] = "application/json"
+  const res = await fetch(path, {
+    method,
+    credentials: "same-origin",
+    headers,
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  })
+  const data = await res.json()
+  if (!res.ok) {
+    const parsed = errorResponseSchema.safeParse(data)
+    throw new Error(parsed.success ? parsed.data.message : `HTTP ${res.status}`)
+  }
+  return schema.parse(data)
 }
 
-interface FlowState {
-  currentStep: FlowStep
-  hasJob: boolean | null
-  surveyData: SurveyData
-  feedback: string
-  visaSupport: boolean | null
-  visaType: string
-  completedSteps: number
-  retentionData: {
-    rolesApplied: string
-    companiesEmailed: string
-    companiesInterviewed: string
-    reason: string
-    maxPrice: string
-    reasonFeedback: string
+// One-line summary of a running or upcoming discount for the price row
+function describeDiscountTerm(discount: SubscriptionDiscount, currency: Currency, locale: Locale) {
+  if (new Date(discount.starts_at) > new Date()) {
+    return translate(locale, "discount-upcoming", {
+      price: formatMoney(money(discount.discounted_price, currency), locale),
+      date: formatDate(discount.starts_at, locale),
+    })
   }
+  if (discount.ends_at) return translate(locale, "discount-until", { date: formatDate(discount.ends_at, locale) })
+  return translate(locale, discount.term === "until_job_found" ? "discount-until-job" : "discount")
 }
 
-export default function ProfilePage() {
+interface ProfilePageProps extends ProfileData {
+  // Language the page is shown in - the user's pick, or the browser's
+  locale: Locale
+  browserLocale: Locale
+}
+
+export default function ProfilePage({
+  user,
+  subscription,
+  downsellAccepted,
+  effectivePrice,
+  discount,
+  locale,
+  browserLocale,
+}: ProfilePageProps) {
+  const t = (key: ProfileMessageKey, values?: Record<string, string | number>) => translate(locale, key, values)
+  const router = useRouter()
+  const paymentMethodUpdated = useSearchParams().get("payment_method") === "updated"
   const [loading] = useState(false)
   const [isSigningOut, setIsSigningOut] = useState(false)
   const [showAdvancedSettings, setShowAdvancedSettings] = useState(false)
   const [showCancellationFlow, setShowCancellationFlow] = useState(false)
+  const [isReactivating, setIsReactivating] = useState(false)
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [isUpdatingCard, setIsUpdatingCard] = useState(false)
+  const [showBillingHistory, setShowBillingHistory] = useState(false)
+  const [isChangingLocale, setIsChangingLocale] = useState(false)
 
-  // Dynamic subscription state that can be updated
-  const [subscriptionData, setSubscriptionData] = useState<SubscriptionData>({
-    status: "active",
-    isTrialSubscription: false,
-    cancelAtPeriodEnd: false,
-    currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // 30 days from now
-    monthlyPrice: 25,
-    isUCStudent: false,
-    hasManagedAccess: false,
-    managedOrganization: null,
-    downsellAccepted: false,
-  })
-
-  const feedbackTextareaRef = useRef<HTMLTextAreaElement>(null)
-
-  // Check for subscription status in URL params or localStorage on mount
+  // Seeded from the database; updated optimistically until the next refresh replaces it
+  const [subscriptionData, setSubscriptionData] = useState<SubscriptionData>(() =>
+    toSubscriptionData(subscription, downsellAccepted)
+  )
   useEffect(() => {
-    // Check URL parameters for cancellation status
-    const urlParams = new URLSearchParams(window.location.search)
-    const cancelled = urlParams.get('cancelled')
-    
-    // Check localStorage for persistent subscription state
-    const savedSubscriptionStatus = localStorage.getItem('subscriptionStatus')
-    
-    if (cancelled === 'true' || savedSubscriptionStatus === 'cancelled') {
-      setSubscriptionData(prev => ({
-        ...prev,
-        status: 'cancelled',
-        cancelAtPeriodEnd: true
-      }))
-      
-      // Store the cancelled status
-      localStorage.setItem('subscriptionStatus', 'cancelled')
-      
-      // Clean up URL parameter
-      if (cancelled) {
-        const newUrl = new URL(window.location.href)
-        newUrl.searchParams.delete('cancelled')
-        window.history.replaceState({}, '', newUrl.toString())
-      }
-    }
-  }, [])
+    setSubscriptionData(toSubscriptionData(subscription, downsellAccepted))
+  }, [subscription, downsellAccepted])
 
   const handleClose = () => {
     console.log("Navigate to jobs")
@@ -134,36 +130,84 @@ export default function ProfilePage() {
     setShowCancellationFlow(true)
   }
 
-  const handleSubscribe = () => {
-    // Reset subscription status to active
-    setSubscriptionData(prev => ({
-      ...prev,
-      status: 'active',
-      cancelAtPeriodEnd: false
-    }))
-    
-    // Update localStorage
-    localStorage.setItem('subscriptionStatus', 'active')
-    
-    console.log("Redirecting to subscription flow...")
-    // Here you would typically redirect to your subscription/payment flow
+  const handleSubscribe = async () => {
+    // A pending cancellation can be undone until the period ends; after that it's a new subscription
+    if (!subscription || !canReactivate) {
+      console.log("Redirecting to subscription flow...")
+      // Here you would typically redirect to your subscription/payment flow
+      return
+    }
+
+    setIsReactivating(true)
+    setActionError(null)
+    try {
+      const { subscription: updated } = await callApi(
+        `/api/subscriptions/${subscription.id}/reactivate`,
+        subscriptionResponseSchema,
+        "POST"
+      )
+      setSubscriptionData(prev => toSubscriptionData(updated, prev.downsellAccepted))
+      router.refresh()
+    } catch (err) {
+      console.error("Error reactivating subscription:", err)
+      setActionError(err instanceof Error ? err.message : t("error-reactivate"))
+    } finally {
+      setIsReactivating(false)
+    }
+  }
+
+  // The billing provider collects the new card on its own page and redirects back here
+  const handleUpdatePaymentMethod = async () => {
+    if (!subscription) return
+    setIsUpdatingCard(true)
+    setActionError(null)
+    try {
+      const { url } = await callApi(
+        `/api/subscriptions/${subscription.id}/payment-method`,
+        paymentMethodResponseSchema,
+        "POST"
+      )
+      window.location.assign(url)
+    } catch (err) {
+      console.error("Error updating payment method:", err)
+      setActionError(err instanceof Error ? err.message : t("error-payment-method"))
+      setIsUpdatingCard(false)
+    }
+  }
+
+  // The page is rendered in the new language on the server, so refresh once it's saved
+  const handleLocaleChange = async (value: string) => {
+    setIsChangingLocale(true)
+    setActionError(null)
+    try {
+      const body: UpdateLocaleRequest = { locale: isLocale(value) ? value : null }
+      await callApi("/api/locale", localeResponseSchema, "PUT", body)
+      router.refresh()
+    } catch (err) {
+      console.error("Error changing language:", err)
+      setActionError(err instanceof Error ? err.message : t("error-language"))
+    } finally {
+      setIsChangingLocale(false)
+    }
   }
 
-  const closeCancellationFlow = (cancelled?: boolean) => {
-    if (cancelled) {
-      // Update subscription status when cancellation is confirmed
+  const closeCancellationFlow = (outcome?: FlowOutcome) => {
+    if (outcome) {
       setSubscriptionData(prev => ({
         ...prev,
-        status: 'cancelled',
-        cancelAtPeriodEnd: true
+        cancelAtPeriodEnd: prev.cancelAtPeriodEnd || outcome === "cancelled",
+        downsellAccepted: prev.downsellAccepted || outcome === "offer_accepted",
       }))
-      localStorage.setItem('subscriptionStatus', 'cancelled')
+      // Re-fetch the server-rendered profile so the status, price and discount come from the database
+      router.refresh()
     }
     setShowCancellationFlow(false)
   }
 
+  const hasSubscription = subscription !== null
   const isSubscriptionActive = subscriptionData.status === 'active' && !subscriptionData.cancelAtPeriodEnd
   const isSubscriptionCancelled = subscriptionData.status === 'cancelled' || subscriptionData.cancelAtPeriodEnd
+  const canReactivate = subscriptionData.status === 'active' && subscriptionData.cancelAtPeriodEnd
 
   if (loading) {
     return (
@@ -222,21 +266,21 @@ export default function ProfilePage() {
   }
 
   return (
-    <div className="min-h-screen bg-gray-50 py-12 relative">
+    <div lang={locale} className="min-h-screen bg-gray-50 py-12 relative">
       <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="bg-white shadow rounded-lg overflow-hidden">
           {/* Header */}
           <div className="px-6 py-8 border-b border-gray-200 bg-gradient-to-r from-purple-50 to-indigo-50">
             <div className="flex items-center justify-between">
               <h1 className="text-2xl font-bold text-gray-900">
-                <span className="sm:hidden">Profile</span>
-                <span className="hidden sm:inline">My Profile</span>
+                <span className="sm:hidden">{t("title-short")}</span>
+                <span className="hidden sm:inline">{t("title")}</span>
               </h1>
               <div className="flex space-x-3">
                 <button
                   onClick={handleClose}
                   className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-white bg-[#8952fc] rounded-lg hover:bg-[#7b40fc] transition-colors"
-                  aria-label="Back to jobs"
+                  aria-label={t("back-to-jobs")}
                 >
                   <svg
                     xmlns="http://www.w3.org/2000/svg"
@@ -252,15 +296,15 @@ export default function ProfilePage() {
                       d="M10 19l-7-7m0 0l7-7m-7 7h18"
                     />
                   </svg>
-                  <span className="sm:hidden">Jobs</span>
-                  <span className="hidden sm:inline">Back to jobs</span>
+                  <span className="sm:hidden">{t("back-to-jobs-short")}</span>
+                  <span className="hidden sm:inline">{t("back-to-jobs")}</span>
                 </button>
                 <button
                   onClick={handleSignOut}
                   className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
                   disabled={isSigningOut}
                 >
-                  {isSigningOut ? "Signing out..." : "Sign out"}
+                  {isSigningOut ? t("signing-out") : t("sign-out")}
                 </button>
               </div>
             </div>
@@ -268,48 +312,33 @@ export default function ProfilePage() {
 
           {/* Profile Info */}
           <div className="px-6 py-6 border-b border-gray-200">
-            <h2 className="text-lg font-medium text-gray-900 mb-4">Account Information</h2>
+            <h2 className="text-lg font-medium text-gray-900 mb-4">{t("account")}</h2>
             <div className="space-y-3">
               <div>
-                <p className="text-sm font-medium text-gray-500">Email</p>
-                <p className="mt-1 text-md text-gray-900">{mockUser.email}</p>
+                <p className="text-sm font-medium text-gray-500">{t("email")}</p>
+                <p className="mt-1 text-md text-gray-900">{user.email}</p>
               </div>
-              <div className="pt-2 space-y-3">
-                <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
-                  <div className="flex items-center space-x-3">
-                    <div className="flex-shrink-0">
-                      <svg
-                        xmlns="http://www.w3.org/2000/svg"
-                        className="h-5 w-5 text-gray-400"
-                        fill="none"
-                        viewBox="0 0 24 24"
-                        stroke="currentColor"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"
-                        />
-                      </svg>
-                    </div>
-                    <p className="text-sm font-medium text-gray-900">Subscription status</p>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    {isSubscriptionActive && (
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-sm font-medium bg-green-50 text-green-700 border border-green-200">
-                        Active
-                      </span>
-                    )}
-                    {isSubscriptionCancelled && (
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-sm font-medium bg-red-50 text-red-700 border border-red-200">
-                        Cancelled
-                      </span>
-                    )}
-                  </div>
-                </div>
-
-                {isSubscriptionActive && (
+              <div>
+                <label htmlFor="locale" className="text-sm font-medium text-gray-500">
+                  {t("language")}
+                </label>
+                <select
+                  id="locale"
+                  value={user.locale ?? ""}
+                  onChange={(e) => handleLocaleChange(e.target.value)}
+                  disabled={isChangingLocale}
+                  className="mt-1 block px-3 py-2 text-sm border border-gray-300 rounded-md bg-white text-gray-900"
+                >
+                  <option value="">{t("language-auto", { language: LOCALE_NAMES[browserLocale] })}</option>
+                  {LOCALES.map((option) => (
+                    <option key={option} value={option} lang={option}>
+                      {LOCALE_NAMES[option]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {hasSubscription && (
+                <div className="pt-2 space-y-3">
                   <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
                     <div className="flex items-center space-x-3">
                       <div className="flex-shrink-0">
@@ -324,29 +353,32 @@ export default function ProfilePage() {
                             strokeLinecap="round"
                             strokeLinejoin="round"
                             strokeWidth={2}
-                            d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+                            d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"
                           />
                         </svg>
                       </div>
-                      <p className="text-sm font-medium text-gray-900">Next payment</p>
+                      <p className="text-sm font-medium text-gray-900">{t("status")}</p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {isSubscriptionActive && (
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-sm font-medium bg-green-50 text-green-700 border border-green-200">
+                          {t("status-active")}
+                        </span>
+                      )}
+                      {isSubscriptionCancelled && (
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-sm font-medium bg-red-50 text-red-700 border border-red-200">
+                          {t("status-cancelled")}
+                        </span>
+                      )}
                     </div>
-                    <p className="text-sm font-medium text-gray-900">
-                      {subscriptionData.currentPeriodEnd &&
-                        new Date(subscriptionData.currentPeriodEnd).toLocaleDateString("en-US", {
-                          month: "long",
-                          day: "numeric",
-                        })}
-                    </p>
                   </div>
-                )}
-
-                {isSubscriptionCancelled && (
-                  <div className="flex items-center justify-between p-4 bg-red-50 rounded-lg border border-red-200">
+  
+                  <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
                     <div className="flex items-center space-x-3">
                       <div className="flex-shrink-0">
                         <svg
                           xmlns="http://www.w3.org/2000/svg"
-                          className="h-5 w-5 text-red-500"
+                          className="h-5 w-5 text-gray-400"
                           fill="none"
                           viewBox="0 0 24 24"
                           stroke="currentColor"
@@ -355,25 +387,83 @@ export default function ProfilePage() {
                             strokeLinecap="round"
                             strokeLinejoin="round"
                             strokeWidth={2}
-                            d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+                            d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
                           />
                         </svg>
                       </div>
-                      <div>
-                        <p className="text-sm font-medium text-red-900">Subscription cancelled</p>
-                        <p className="text-xs text-red-700">Access will continue until your current period ends</p>
-                      </div>
+                      <p className="text-sm font-medium text-gray-900">{t("monthly-price")}</p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-sm font-medium text-gray-900">
+                        {formatMoney(effectivePrice, locale)}
+                        {effectivePrice.amount !== subscriptionData.monthlyPrice.amount && (
+                          <span className="ml-2 text-gray-400 line-through">
+                            {formatMoney(subscriptionData.monthlyPrice, locale)}
+                          </span>
+                        )}
+                      </p>
+                      {discount && <p className="text-xs text-gray-500">{describeDiscountTerm(discount, subscriptionData.monthlyPrice.currency, locale)}</p>}
                     </div>
-                    <p className="text-sm font-medium text-red-900">
-                      {subscriptionData.currentPeriodEnd &&
-                        new Date(subscriptionData.currentPeriodEnd).toLocaleDateString("en-US", {
-                          month: "long",
-                          day: "numeric",
-                        })}
-                    </p>
                   </div>
-                )}
-              </div>
+  
+                  {isSubscriptionActive && (
+                    <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                      <div className="flex items-center space-x-3">
+                        <div className="flex-shrink-0">
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            className="h-5 w-5 text-gray-400"
+                            fill="none"
+                            viewBox="0 0 24 24"
+                            stroke="currentColor"
+                          >
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+                            />
+                          </svg>
+                        </div>
+                        <p className="text-sm font-medium text-gray-900">{t("next-payment")}</p>
+                      </div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {subscriptionData.currentPeriodEnd && formatDate(subscriptionData.currentPeriodEnd, locale)}
+                      </p>
+                    </div>
+                  )}
+  
+                  {isSubscriptionCancelled && (
+                    <div className="flex items-center justify-between p-4 bg-red-50 rounded-lg border border-red-200">
+                      <div className="flex items-center space-x-3">
+                        <div className="flex-shrink-0">
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            className="h-5 w-5 text-red-500"
+                            fill="none"
+                            viewBox="0 0 24 24"
+                            stroke="currentColor"
+                          >
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+                            />
+                          </svg>
+                        </div>
+                        <div>
+                          <p className="text-sm font-medium text-red-900">{t("cancelled-title")}</p>
+                          <p className="text-xs text-red-700">{t("cancelled-body")}</p>
+                        </div>
+                      </div>
+                      <p className="text-sm font-medium text-red-900">
+                        {subscriptionData.currentPeriodEnd && formatDate(subscriptionData.currentPeriodEnd, locale)}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           </div>
 
@@ -383,7 +473,7 @@ export default function ProfilePage() {
               onClick={() => {
                 console.log("Support contact clicked")
               }}
-              title="Send email to support"
+              title={t("support-title")}
               className="inline-flex items-center justify-center w-full px-4 py-3 bg-[#8952fc] text-white rounded-lg hover:bg-[#7b40fc] transition-colors"
             >
               <svg
@@ -400,7 +490,7 @@ export default function ProfilePage() {
                   d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"
                 />
               </svg>
-              <span className="text-sm">Contact support</span>
+              <span className="text-sm">{t("support")}</span>
             </button>
           </div>
 
@@ -433,7 +523,7 @@ export default function ProfilePage() {
                   d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
                 />
               </svg>
-              <span className="text-sm font-medium">Manage Subscription</span>
+              <span className="text-sm font-medium">{t("manage")}</span>
               <svg
                 className={`w-4 h-4 ml-2 transition-transform duration-200 ${showAdvancedSettings ? "rotate-180" : ""}`}
                 fill="none"
@@ -452,35 +542,45 @@ export default function ProfilePage() {
                 <div>
                   <div className="space-y-3">
                     {/* Show different buttons based on subscription status */}
-                    {isSubscriptionCancelled ? (
-                      // Subscribe button for cancelled subscriptions
-                      <button
-                        onClick={handleSubscribe}
-                        className="inline-flex items-center justify-center w-full px-4 py-3 bg-[#8952fc] text-white rounded-lg hover:bg-[#7b40fc] transition-all duration-200 shadow-sm group"
-                      >
-                        <svg
-                          xmlns="http://www.w3.org/2000/svg"
-                          className="h-4 w-4 mr-2 group-hover:scale-110 transition-transform"
-                          fill="none"
-                          viewBox="0 0 24 24"
-                          stroke="currentColor"
-                          strokeWidth={2}
+                    {!hasSubscription || isSubscriptionCancelled ? (
+                      // Reactivate or subscribe button for cancelled subscriptions
+                      <>
+                        <button
+                          onClick={handleSubscribe}
+                          disabled={isReactivating}
+                          className="inline-flex items-center justify-center w-full px-4 py-3 bg-[#8952fc] text-white rounded-lg hover:bg-[#7b40fc] transition-all duration-200 shadow-sm group"
                         >
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            d="M12 6v6m0 0v6m0-6h6m-6 0H6"
-                          />
-                        </svg>
-                        <span className="text-sm font-medium">Subscribe to Migrate Mate</span>
-                      </button>
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            className="h-4 w-4 mr-2 group-hover:scale-110 transition-transform"
+                            fill="none"
+                            viewBox="0 0 24 24"
+                            stroke="currentColor"
+                            strokeWidth={2}
+                          >
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              d="M12 6v6m0 0v6m0-6h6m-6 0H6"
+                            />
+                          </svg>
+                          <span className="text-sm font-medium">
+                            {canReactivate
+                              ? isReactivating ? t("reactivating") : t("reactivate")
+                              : t("subscribe")}
+                          </span>
+                        </button>
+                        {actionError && <p className="text-sm text-red-600">{actionError}</p>}
+                      </>
                     ) : (
                       // Standard subscription management buttons for active subscriptions
                       <>
+                        {paymentMethodUpdated && (
+                          <p className="text-sm text-green-700">{t("payment-method-updated")}</p>
+                        )}
                         <button
-                          onClick={() => {
-                            console.log("Update card clicked")
-                          }}
+                          onClick={handleUpdatePaymentMethod}
+                          disabled={isUpdatingCard}
                           className="inline-flex items-center justify-center w-full px-4 py-3 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 hover:border-gray-400 transition-all duration-200 shadow-sm"
                         >
                           <svg
@@ -497,12 +597,12 @@ export default function ProfilePage() {
                               d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z"
                             />
                           </svg>
-                          <span className="text-sm font-medium">Update payment method</span>
+                          <span className="text-sm font-medium">
+                            {isUpdatingCard ? t("redirecting") : t("update-payment-method")}
+                          </span>
                         </button>
                         <button
-                          onClick={() => {
-                            console.log("Invoice history clicked")
-                          }}
+                          onClick={() => setShowBillingHistory(prev => !prev)}
                           className="inline-flex items-center justify-center w-full px-4 py-3 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 hover:border-gray-400 transition-all duration-200 shadow-sm"
                         >
                           <svg
@@ -519,8 +619,11 @@ export default function ProfilePage() {
                               d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2"
                             />
                           </svg>
-                          <span className="text-sm font-medium">View billing history</span>
+                          <span className="text-sm font-medium">
+                            {showBillingHistory ? t("hide-billing-history") : t("show-billing-history")}
+                          </span>
                         </button>
+                        {showBillingHistory && <BillingHistory locale={locale} />}
                         <button
                           onClick={handleCancelSubscription}
                           className="inline-flex items-center justify-center w-full px-4 py-3 bg-white border border-red-200 text-red-600 rounded-lg hover:bg-red-50 hover:border-red-300 transition-all duration-200 shadow-sm group"
@@ -539,8 +642,9 @@ export default function ProfilePage() {
                               d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
                             />
                           </svg>
-                          <span className="text-sm font-medium">Cancel Migrate Mate</span>
+                          <span className="text-sm font-medium">{t("cancel")}</span>
                         </button>
+                        {actionError && <p className="text-sm text-red-600">{actionError}</p>}
                       </>
                     )}
                   </div>
@@ -551,8 +655,10 @@ export default function ProfilePage() {
         </div>
       </div>
 
-      {showCancellationFlow && (
-        <CancellationFlow 
+      {showCancellationFlow && subscription && (
+        <CancellationFlow
+          subscriptionId={subscription.id}
+          locale={locale}
           onClose={closeCancellationFlow}
         />
       )}
@@ -0,0 +1,205 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { errorResponseSchema } from "@/lib/cancellation-api"
+import {
+  visaSupportLeadResponseSchema,
+  visaSupportLeadsResponseSchema,
+  type VisaSupportLead,
+  type VisaSupportStatus,
+} from "@/lib/visa-support-api"
+
+// "queue" is open and claimed leads together, which is what the team works from
+type View = "queue" | VisaSupportStatus
+
+const VIEWS: { key: View; label: string }[] = [
+  { key: "queue", label: "Queue" },
+  { key: "open", label: "Open" },
+  { key: "claimed", label: "Claimed" },
+  { key: "closed", label: "Closed" },
+]
+
+const STATUS_STYLES: Record<VisaSupportStatus, string> = {
+  open: "bg-amber-100 text-amber-800",
+  claimed: "bg-blue-100 text-blue-800",
+  closed: "bg-gray-100 text-gray-600",
+}
+
+async function fetchJson<T>(path: string, schema: { parse: (data: unknown) => T }, init?: RequestInit): Promise<T> {
+  const res = await fetch(path, { credentials: "same-origin", ...init })
+  const data = await res.json()
+  if (!res.ok) {
+    const parsed = errorResponseSchema.safeParse(data)
+    throw new Error(parsed.success ? parsed.data.message : `HTTP ${res.status}`)
+  }
+  return schema.parse(data)
+}
+
+function formatDateTime(date: string) {
+  return new Date(date).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" })
+}
+
+export default function VisaSupportQueue() {
+  const [view, setView] = useState<View>("queue")
+  const [leads, setLeads] = useState<VisaSupportLead[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(() => {
+    const query = view === "queue" ? "" : `?status=${view}`
+    return fetchJson(`/api/admin/visa-support${query}`, visaSupportLeadsResponseSchema)
+      .then(({ leads }) => setLeads(leads))
+      .catch((err) => setError(err.message))
+  }, [view])
+
+  useEffect(() => {
+    setLeads(null)
+    load()
+  }, [load])
+
+  // Claim, note and close answer with the updated lead; it drops out of views it no longer belongs to on reload
+  const act = async (lead: VisaSupportLead, action: "claim" | "close" | "notes", body?: unknown) => {
+    setError(null)
+    try {
+      const path = `/api/admin/visa-support/${lead.id}/${action}`
+      const { lead: updated } = await fetchJson(path, visaSupportLeadResponseSchema, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body ?? {}),
+      })
+      setLeads((prev) => prev?.map((l) => (l.id === updated.id ? updated : l)) ?? null)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed")
+      await load()
+      return false
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-6 py-8 border-b border-gray-200 bg-gradient-to-r from-purple-50 to-indigo-50">
+            <div className="flex items-center justify-between">
+              <h1 className="text-2xl font-bold text-gray-900">Visa support requests</h1>
+              <div className="flex gap-2" role="tablist">
+                {VIEWS.map(({ key, label }) => (
+                  <button
+                    key={key}
+                    role="tab"
+                    aria-selected={view === key}
+                    onClick={() => setView(key)}
+                    className={`px-3 py-1.5 text-sm rounded-md border ${
+                      view === key ? "bg-white border-gray-300 font-medium" : "border-transparent text-gray-600 hover:bg-white/60"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {error && (
+            <div className="px-6 py-4 text-sm text-red-700 bg-red-50 border-b border-red-200">{error}</div>
+          )}
+
+          {!leads && !error && <div className="px-6 py-6 text-sm text-gray-500">Loading requests...</div>}
+
+          {leads?.length === 0 && <div className="px-6 py-6 text-sm text-gray-500">No requests here.</div>}
+
+          {leads?.map((lead) => (
+            <LeadCard key={lead.id} lead={lead} act={act} />
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function LeadCard({
+  lead,
+  act,
+}: {
+  lead: VisaSupportLead
+  act: (lead: VisaSupportLead, action: "claim" | "close" | "notes", body?: unknown) => Promise<boolean>
+}) {
+  const [note, setNote] = useState("")
+  const [busy, setBusy] = useState(false)
+
+  const run = async (action: "claim" | "close" | "notes", body?: unknown) => {
+    setBusy(true)
+    const ok = await act(lead, action, body)
+    setBusy(false)
+    if (ok && action === "notes") setNote("")
+  }
+
+  return (
+    <div className="px-6 py-5 border-b border-gray-100">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-gray-900">{lead.email}</span>
+            <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_STYLES[lead.status]}`}>{lead.status}</span>
+          </div>
+          <p className="mt-1 text-sm text-gray-600">
+            {lead.visa_type} · {lead.has_lawyer ? "Has a lawyer" : "No lawyer"} · requested {formatDateTime(lead.created_at)}
+          </p>
+          {lead.claimed_by_email && (
+            <p className="mt-1 text-xs text-gray-500">
+              Claimed by {lead.claimed_by_email}
+              {lead.claimed_at && ` on ${formatDateTime(lead.claimed_at)}`}
+              {lead.closed_at && ` · closed ${formatDateTime(lead.closed_at)}`}
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2 shrink-0">
+          {lead.status === "open" && (
+            <Button size="sm" onClick={() => run("claim")} disabled={busy}>
+              Claim
+            </Button>
+          )}
+          {lead.status !== "closed" && (
+            <Button size="sm" variant="outline" onClick={() => run("close")} disabled={busy}>
+              Close
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {lead.notes.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {lead.notes.map((n) => (
+            <li key={n.id} className="text-sm bg-gray-50 rounded-md px-3 py-2">
+              <p className="text-gray-900 whitespace-pre-wrap">{n.body}</p>
+              <p className="mt-1 text-xs text-gray-500">
+                {n.author_email ?? "Former staff member"} · {formatDateTime(n.created_at)}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form
+        className="mt-3 flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          if (note.trim()) run("notes", { body: note })
+        }}
+      >
+        <input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Add a note"
+          maxLength={2000}
+          className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-md"
+          aria-label={`Note for ${lead.email}`}
+        />
+        <Button size="sm" variant="outline" type="submit" disabled={busy || !note.trim()}>
+          Add note
+        </Button>
+      </form>
+    </div>
+  )
+}
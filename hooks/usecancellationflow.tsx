@@ -1,70 +1,246 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback, useRef } from "react"
+import {
+  sessionResponseSchema,
+  errorResponseSchema,
+  ERROR_CODES,
+  type CancellationSession,
+  type FlowProgress,
+  type FlowStep,
+  type SaveProgressRequest,
+  type StartCancellationRequest,
+  type StepAnswers,
+} from "@/lib/cancellation-api"
+import type { ClientEventType, RecordEventRequest } from "@/lib/audit-api"
+import { analytics } from "@/lib/analytics-client"
+import type { FlowAnalyticsEvent } from "@/lib/analytics-api"
+import type { Locale } from "@/lib/i18n"
 
-type Variant = "A" | "B"
+// Attempts per submission before it's reported as failed; offline time doesn't use any up
+const MAX_SUBMIT_ATTEMPTS = 4
+const RETRY_BASE_DELAY_MS = 1000
 
-export function useCancellationFlow(userId: string, subscriptionId: string) {
-  const [variant, setVariant] = useState<Variant | null>(null)
+// A failed call to the cancellation API; status is null when no response came back
+class RequestError extends Error {
+  constructor(message: string, public status: number | null, public code?: string) {
+    super(message)
+    this.name = "RequestError"
+  }
+}
+
+// Calls the cancellation API and validates the response against the shared schema.
+// Only writes that are retried pass an idempotency key, so a retry with the same key is never applied twice;
+// each key costs a stored response on the server, so calls that are never retried go without.
+async function request(
+  path: string,
+  body: unknown,
+  method = "POST",
+  idempotencyKey?: string,
+): Promise<CancellationSession> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" }
+  if (idempotencyKey) headers["Idempotency-Key"] = idempotencyKey
+  let res: Response
+  try {
+    res = await fetch(path, {
+      method,
+      headers,
+      credentials: "same-origin",
+      body: JSON.stringify(body),
+    })
+  } catch {
+    throw new RequestError("Network error", null)
+  }
+  const data = await res.json().catch(() => null)
+
+  if (!res.ok) {
+    const parsed = errorResponseSchema.safeParse(data)
+    if (!parsed.success) throw new RequestError(`HTTP ${res.status}`, res.status)
+    throw new RequestError(parsed.data.message, res.status, parsed.data.code)
+  }
+  return sessionResponseSchema.parse(data).cancellation
+}
+
+// Server errors, rate limits and a first attempt still running can pass; other refusals, like a session
+// that is already cancelled (also 409), won't
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof RequestError)) return false
+  if (error.code === ERROR_CODES.requestInProgress) return true
+  return error.status === null || error.status >= 500 || error.status === 429
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+export type SubmissionStatus = "idle" | "pending" | "offline" | "succeeded" | "failed"
+
+export interface SubmissionState {
+  status: SubmissionStatus
+  error: string | null
+}
+
+// A write waiting its turn; writes go out one at a time, in the order the user made them
+interface Submission {
+  path: string
+  body: unknown
+  idempotencyKey: string
+  attempts: number
+  resolve: () => void
+}
+
+// The signed-in user is resolved server-side from the auth cookie sent with each request
+export function useCancellationFlow(subscriptionId: string, locale: Locale) {
+  const [session, setSession] = useState<CancellationSession | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
   useEffect(() => {
-    if (!userId || !subscriptionId) return
+    if (!subscriptionId) return
 
-    async function fetchVariant() {
+    async function startSession() {
       try {
         setLoading(true)
         setError(null)
 
-        console.log("[v0] Fetching variant", { userId, subscriptionId })
-
-        const res = await fetch("/api/cancellation", {  // API path
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            user_id: userId,
-            subscription_id: subscriptionId,
-            get_variant: true,
-          }),
-        })
-
-        if (!res.ok) throw new Error(`HTTP ${res.status}`)
-
-        const data = await res.json()
-        console.log("[v0] API response data:", data)
+        const body: StartCancellationRequest = { subscription_id: subscriptionId, locale }
+        const cancellation = await request("/api/cancellations", body)
 
-        if (data.success) setVariant(data.variant)
-        else setError(data.message || "Failed to fetch variant")
+        setSession(cancellation)
       } catch (err) {
-        console.error("[v0] Error fetching variant:", err)
-        setError("Network error")
+        console.error("Error starting cancellation:", err)
+        setError(err instanceof Error ? err.message : "Network error")
       } finally {
         setLoading(false)
       }
     }
 
-    fetchVariant()
-  }, [userId, subscriptionId])
+    startSession()
+  }, [subscriptionId, locale])
 
-  const submitCancellation = async (accepted_downsell: boolean, reason?: string) => {
+  const cancellationId = session?.id
+
+  const [submission, setSubmission] = useState<SubmissionState>({ status: "idle", error: null })
+  const queue = useRef<Submission[]>([])
+  const processing = useRef(false)
+
+  // Works through the queue, retrying each write with backoff under its own idempotency key.
+  // Stops while offline or after a write fails for good; going back online or retrySubmission picks it up again.
+  const processQueue = useCallback(async () => {
+    if (processing.current) return
+    processing.current = true
     try {
-      console.log("[v0] Submitting cancellation:", { accepted_downsell, reason })
-      const res = await fetch("/api/cancellation", {  //  API path
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          user_id: userId,
-          subscription_id: subscriptionId,
-          accepted_downsell,
-          reason,
-        }),
+      while (queue.current.length > 0) {
+        const item = queue.current[0]
+        if (!navigator.onLine) {
+          setSubmission({ status: "offline", error: null })
+          return
+        }
+
+        setSubmission({ status: "pending", error: null })
+        try {
+          setSession(await request(item.path, item.body, "POST", item.idempotencyKey))
+          queue.current.shift()
+          item.resolve()
+        } catch (err) {
+          if (err instanceof RequestError && err.status === null && !navigator.onLine) continue
+          item.attempts++
+          if (!isRetryable(err) || item.attempts >= MAX_SUBMIT_ATTEMPTS) {
+            console.error(`Error submitting ${item.path}:`, err)
+            setSubmission({ status: "failed", error: err instanceof Error ? err.message : "Network error" })
+            return
+          }
+          await sleep(RETRY_BASE_DELAY_MS * 2 ** (item.attempts - 1))
+        }
+      }
+      setSubmission({ status: "succeeded", error: null })
+    } finally {
+      processing.current = false
+    }
+  }, [])
+
+  useEffect(() => {
+    const resume = () => void processQueue()
+    window.addEventListener("online", resume)
+    return () => window.removeEventListener("online", resume)
+  }, [processQueue])
+
+  // Unsent answers only live in this tab, so leaving with some queued asks first
+  useEffect(() => {
+    const warn = (event: BeforeUnloadEvent) => {
+      if (queue.current.length > 0) event.preventDefault()
+    }
+    window.addEventListener("beforeunload", warn)
+    return () => window.removeEventListener("beforeunload", warn)
+  }, [])
+
+  // Queues a write to one of the session's sub-resources; resolves once it's saved, keeping the latest session state
+  const submit = useCallback((action: string, body: unknown = {}) => {
+    if (!cancellationId) return Promise.resolve()
+    return new Promise<void>((resolve) => {
+      queue.current.push({
+        path: `/api/cancellations/${cancellationId}/${action}`,
+        body,
+        idempotencyKey: crypto.randomUUID(),
+        attempts: 0,
+        resolve,
       })
-      if (!res.ok) throw new Error(`HTTP ${res.status}`)
+      void processQueue()
+    })
+  }, [cancellationId, processQueue])
+
+  // Sends the write that failed again, under the same idempotency key
+  const retrySubmission = useCallback(() => {
+    if (queue.current[0]) queue.current[0].attempts = 0
+    void processQueue()
+  }, [processQueue])
+
+  // Progress is saved again a moment later anyway, so it isn't queued or retried
+  const saveProgress = useCallback(async (progress: FlowProgress) => {
+    if (!cancellationId) return
+    try {
+      const body: SaveProgressRequest = { progress }
+      setSession(await request(`/api/cancellations/${cancellationId}/progress`, body, "PUT"))
     } catch (err) {
-      console.error("[v0] Error submitting cancellation:", err)
+      console.error("Error saving cancellation progress:", err)
     }
-  }
+  }, [cancellationId])
 
-  return { variant, loading, error, submitCancellation }
+  // Audit events don't change the session, so they aren't awaited; keepalive lets a close during unload still arrive
+  const recordEvent = useCallback((type: ClientEventType, step: FlowStep) => {
+    if (!cancellationId) return
+    const body: RecordEventRequest = { type, step }
+    fetch(`/api/cancellations/${cancellationId}/events`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "same-origin",
+      body: JSON.stringify(body),
+      keepalive: true,
+    }).catch((err) => console.error(`Error recording cancellation ${type}:`, err))
+  }, [cancellationId])
+
+  // Funnel analytics are batched by the analytics client rather than sent one request per event
+  const track = useCallback((event: FlowAnalyticsEvent) => {
+    if (cancellationId) analytics.track({ ...event, cancellation_id: cancellationId })
+  }, [cancellationId])
+
+  const submitStep = useCallback((answers: StepAnswers) => submit("steps", answers), [submit])
+  const acceptOffer = useCallback(() => submit("accept-offer"), [submit])
+  const confirmCancellation = useCallback(() => submit("confirm"), [submit])
+  const requestVisaSupport = useCallback(() => submit("visa-support"), [submit])
+
+  return {
+    variant: session?.downsell_variant ?? null,
+    offer: session?.offer ?? null,
+    session,
+    loading,
+    error,
+    submitStep,
+    acceptOffer,
+    confirmCancellation,
+    requestVisaSupport,
+    saveProgress,
+    submission,
+    retrySubmission,
+    recordEvent,
+    track,
+  }
 }
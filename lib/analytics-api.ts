@@ -0,0 +1,43 @@
+// Funnel analytics collection - the event batches the browser analytics client sends
+import { z } from "zod"
+import { cancellationIdSchema, flowStepSchema } from "@/lib/cancellation-api"
+
+const eventBaseSchema = z.object({
+  id: z.string().uuid(), // Picked by the client so retried batches aren't counted twice
+  cancellation_id: cancellationIdSchema,
+  step: flowStepSchema,
+  occurred_at: z.string().datetime(),
+})
+
+// Time spent on the step, from its step_view
+const durationSchema = z.number().int().min(0)
+
+export const analyticsEventSchema = z.discriminatedUnion("name", [
+  eventBaseSchema.extend({ name: z.literal("step_view") }),
+  eventBaseSchema.extend({ name: z.literal("step_complete"), duration_ms: durationSchema }),
+  eventBaseSchema.extend({ name: z.literal("back"), to: flowStepSchema }),
+  // Left the flow without finishing: closed the modal or the page on this step
+  eventBaseSchema.extend({ name: z.literal("abandon"), duration_ms: durationSchema }),
+  eventBaseSchema.extend({ name: z.literal("offer_impression") }),
+])
+
+export const ANALYTICS_BATCH_LIMIT = 50
+
+// POST /api/analytics/events
+export const collectEventsRequestSchema = z.object({
+  events: z.array(analyticsEventSchema).min(1).max(ANALYTICS_BATCH_LIMIT),
+})
+
+export const collectEventsResponseSchema = z.object({
+  success: z.literal(true),
+  accepted: z.number().int(),
+})
+
+// What callers pass to track(); the client adds the id and timestamp
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never
+
+export type AnalyticsEventPayload = z.infer<typeof analyticsEventSchema>
+export type AnalyticsEventInput = DistributiveOmit<AnalyticsEventPayload, "id" | "occurred_at">
+export type FlowAnalyticsEvent = DistributiveOmit<AnalyticsEventInput, "cancellation_id">
+export type CollectEventsRequest = z.infer<typeof collectEventsRequestSchema>
+export type CollectEventsResponse = z.infer<typeof collectEventsResponseSchema>
@@ -0,0 +1,103 @@
+// Browser client for funnel analytics - queues events and sends them in batches to the collection endpoint
+// Failed batches are retried with backoff; when the page is hidden or unloaded the queue goes out with sendBeacon
+import {
+  ANALYTICS_BATCH_LIMIT,
+  type AnalyticsEventInput,
+  type AnalyticsEventPayload,
+  type CollectEventsRequest,
+} from "@/lib/analytics-api"
+
+const ENDPOINT = "/api/analytics/events"
+const FLUSH_INTERVAL_MS = 5000
+const MAX_RETRY_DELAY_MS = 60_000
+// Oldest events are dropped past this, so a long outage can't grow the queue without bound
+const MAX_QUEUE_LENGTH = 500
+
+export interface AnalyticsClient {
+  track: (event: AnalyticsEventInput) => void
+  // beacon is for page unload, when an ordinary request may be cut off
+  flush: (options?: { beacon?: boolean }) => Promise<void>
+}
+
+export function createAnalyticsClient(endpoint = ENDPOINT): AnalyticsClient {
+  let queue: AnalyticsEventPayload[] = []
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let failures = 0
+  let sending = false
+  let listening = false
+
+  function schedule(delay: number) {
+    if (timer) return
+    timer = setTimeout(() => {
+      timer = null
+      void flush()
+    }, delay)
+  }
+
+  // Registered on first use so the module is safe to import during server rendering
+  function listenForUnload() {
+    if (listening || typeof window === "undefined") return
+    listening = true
+    window.addEventListener("pagehide", () => void flush({ beacon: true }))
+    document.addEventListener("visibilitychange", () => {
+      if (document.visibilityState === "hidden") void flush({ beacon: true })
+    })
+  }
+
+  // Resolves true once the batch is done with - delivered, or rejected in a way a retry won't fix
+  async function send(events: AnalyticsEventPayload[], beacon: boolean): Promise<boolean> {
+    const body = JSON.stringify({ events } satisfies CollectEventsRequest)
+    if (beacon && navigator.sendBeacon?.(endpoint, new Blob([body], { type: "application/json" }))) return true
+
+    try {
+      const res = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "same-origin",
+        body,
+        keepalive: beacon,
+      })
+      return res.status < 500
+    } catch {
+      return false
+    }
+  }
+
+  async function flush({ beacon = false } = {}) {
+    // A beacon can't wait for the batch in flight; events already taken off the queue go with that request
+    if (sending && !beacon) return
+    if (timer) {
+      clearTimeout(timer)
+      timer = null
+    }
+
+    sending = true
+    try {
+      while (queue.length > 0) {
+        const batch = queue.splice(0, ANALYTICS_BATCH_LIMIT)
+        if (!(await send(batch, beacon))) {
+          queue = [...batch, ...queue].slice(-MAX_QUEUE_LENGTH)
+          failures++
+          schedule(Math.min(FLUSH_INTERVAL_MS * 2 ** failures, MAX_RETRY_DELAY_MS))
+          return
+        }
+        failures = 0
+      }
+    } finally {
+      sending = false
+    }
+  }
+
+  function track(event: AnalyticsEventInput) {
+    queue.push({ ...event, id: crypto.randomUUID(), occurred_at: new Date().toISOString() })
+    if (queue.length > MAX_QUEUE_LENGTH) queue.shift()
+    listenForUnload()
+
+    if (queue.length >= ANALYTICS_BATCH_LIMIT) void flush()
+    else schedule(FLUSH_INTERVAL_MS)
+  }
+
+  return { track, flush }
+}
+
+export const analytics = createAnalyticsClient()
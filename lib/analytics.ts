@@ -0,0 +1,45 @@
+// Funnel analytics collection - stores the events the flow sends from lib/analytics-client.ts
+// The variant and experiment are copied from the session, so the browser can't attribute events to another arm
+import { supabaseAdmin as supabase } from "@/lib/supabase"
+import { ApiError } from "@/lib/api"
+import type { AnalyticsEventPayload } from "@/lib/analytics-api"
+import type { AnalyticsEvent, Cancellation } from "@/types/database"
+
+type SessionRow = Pick<Cancellation, "id" | "user_id" | "experiment_id" | "downsell_variant">
+
+// Returns how many events were newly stored; ones already stored under the same id are ignored and not counted
+export async function collectEvents(userId: string, events: AnalyticsEventPayload[]): Promise<number> {
+  const cancellationIds = [...new Set(events.map((event) => event.cancellation_id))]
+  const { data, error } = await supabase
+    .from("cancellations")
+    .select("id, user_id, experiment_id, downsell_variant")
+    .in("id", cancellationIds)
+
+  if (error) throw error
+  const sessions = new Map((data as SessionRow[]).filter((row) => row.user_id === userId).map((row) => [row.id, row]))
+  if (sessions.size !== cancellationIds.length) throw new ApiError(404, "Cancellation not found")
+
+  const rows = events.map(({ id, cancellation_id, name, step, occurred_at, ...properties }) => {
+    const session = sessions.get(cancellation_id)!
+    return {
+      id,
+      cancellation_id,
+      user_id: userId,
+      experiment_id: session.experiment_id,
+      downsell_variant: session.downsell_variant,
+      name,
+      step,
+      properties,
+      occurred_at,
+    } satisfies Omit<AnalyticsEvent, "received_at">
+  })
+
+  // Duplicates are skipped, so only the rows actually inserted come back
+  const { data: inserted, error: insertError } = await supabase
+    .from("analytics_events")
+    .upsert(rows, { onConflict: "id", ignoreDuplicates: true })
+    .select("id")
+
+  if (insertError) throw insertError
+  return inserted.length
+}
@@ -0,0 +1,66 @@
+// Shared helpers for route handlers - request parsing and error responses
+// Each API's request and response shapes are zod schemas in a lib/*-api.ts file, imported by both the route
+// handlers and the client code that calls them, so the two sides validate the same contract
+import { NextResponse } from "next/server"
+import { z, type ZodTypeAny } from "zod"
+
+// Thrown from server code to end a request with a specific status
+export class ApiError extends Error {
+  constructor(public status: number, message: string, public code?: string) {
+    super(message)
+    this.name = "ApiError"
+  }
+}
+
+// The billing provider was updated but the database write that follows it failed.
+// Provider calls are safe to repeat, so retrying the request finishes the job.
+export class PartialFailureError extends ApiError {
+  constructor(message: string, public cause: unknown) {
+    super(502, message)
+    this.name = "PartialFailureError"
+  }
+}
+
+export async function parseJson<T extends ZodTypeAny>(request: Request, schema: T): Promise<z.infer<T>> {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    throw new ApiError(400, "Request body must be valid JSON")
+  }
+
+  const result = schema.safeParse(body)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    const path = issue.path.join(".")
+    throw new ApiError(400, path ? `${path}: ${issue.message}` : issue.message)
+  }
+  return result.data
+}
+
+export function parseQuery<T extends ZodTypeAny>(request: Request, schema: T): z.infer<T> {
+  const query = Object.fromEntries(new URL(request.url).searchParams)
+  const result = schema.safeParse(query)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    throw new ApiError(400, `Invalid ${issue.path.join(".") || "query"}`)
+  }
+  return result.data
+}
+
+export function parseParam<T extends ZodTypeAny>(value: unknown, schema: T, name: string): z.infer<T> {
+  const result = schema.safeParse(value)
+  if (!result.success) throw new ApiError(400, `Invalid ${name}`)
+  return result.data
+}
+
+export function errorResponse(error: unknown) {
+  if (error instanceof PartialFailureError) console.error(error.message, error.cause)
+  if (error instanceof ApiError) {
+    const body = { success: false, message: error.message, ...(error.code && { code: error.code }) }
+    return NextResponse.json(body, { status: error.status })
+  }
+
+  console.error(error)
+  return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+}
@@ -0,0 +1,84 @@
+// Cancellation audit trail - what the flow engine reports from the browser, and the admin replay of a session
+import { z } from "zod"
+import { localeSchema } from "@/lib/locale-api"
+import {
+  cancellationIdSchema,
+  cancellationStatusSchema,
+  downsellVariantSchema,
+  flowStepSchema,
+} from "@/lib/cancellation-api"
+
+export const cancellationEventTypeSchema = z.enum([
+  "session_started",
+  "session_resumed",
+  "session_expired",
+  "step_entered",
+  "answer_given",
+  "offer_shown",
+  "offer_accepted",
+  "back",
+  "closed",
+  "cancellation_confirmed",
+  "reactivated",
+])
+
+// Only the browser sees these; everything else is recorded by the API as it writes
+export const clientEventTypeSchema = cancellationEventTypeSchema.extract(["step_entered", "offer_shown", "back", "closed"])
+
+// POST /api/cancellations/:id/events - step is the one the user was on (the one left, for back and closed)
+export const recordEventRequestSchema = z.object({
+  type: clientEventTypeSchema,
+  step: flowStepSchema,
+})
+
+export const recordEventResponseSchema = z.object({
+  success: z.literal(true),
+})
+
+export const cancellationEventSchema = z.object({
+  id: z.number().int(),
+  type: cancellationEventTypeSchema,
+  step: z.string().nullable(),
+  downsell_variant: downsellVariantSchema,
+  data: z.record(z.unknown()),
+  occurred_at: z.string(),
+})
+
+export const cancellationSummarySchema = z.object({
+  id: cancellationIdSchema,
+  user_id: z.string().uuid(),
+  email: z.string(),
+  subscription_id: z.string().uuid(),
+  experiment_id: z.string().uuid().nullable(),
+  downsell_variant: downsellVariantSchema,
+  status: cancellationStatusSchema,
+  locale: localeSchema,
+  content_version: z.number().int().nullable(),
+  created_at: z.string(),
+})
+
+// GET /api/admin/cancellations?email=... - a user's sessions, newest first
+export const listCancellationsQuerySchema = z.object({
+  email: z.string().trim().email(),
+})
+
+export const cancellationsResponseSchema = z.object({
+  success: z.literal(true),
+  cancellations: z.array(cancellationSummarySchema),
+})
+
+// GET /api/admin/cancellations/:id/replay - one session and everything that happened in it, in order
+export const replayResponseSchema = z.object({
+  success: z.literal(true),
+  cancellation: cancellationSummarySchema,
+  events: z.array(cancellationEventSchema),
+})
+
+export type ClientEventType = z.infer<typeof clientEventTypeSchema>
+export type RecordEventRequest = z.infer<typeof recordEventRequestSchema>
+export type RecordEventResponse = z.infer<typeof recordEventResponseSchema>
+export type CancellationEventSummary = z.infer<typeof cancellationEventSchema>
+export type CancellationSummary = z.infer<typeof cancellationSummarySchema>
+export type ListCancellationsQuery = z.infer<typeof listCancellationsQuerySchema>
+export type CancellationsResponse = z.infer<typeof cancellationsResponseSchema>
+export type ReplayResponse = z.infer<typeof replayResponseSchema>
@@ -0,0 +1,89 @@
+// Cancellation audit trail - the append-only event log support and product replay sessions from
+// Writes that change a session record their event in the same database function; the rest come through recordEvent
+import { supabaseAdmin as supabase } from "@/lib/supabase"
+import { ApiError } from "@/lib/api"
+import type { CancellationSummary } from "@/lib/audit-api"
+import type { Cancellation, CancellationEvent, CancellationEventType, User } from "@/types/database"
+
+export async function recordEvent(
+  cancellation: Cancellation,
+  type: CancellationEventType,
+  step: string | null = null,
+  data: Record<string, unknown> = {},
+): Promise<void> {
+  const { error } = await supabase.from("cancellation_events").insert({
+    cancellation_id: cancellation.id,
+    user_id: cancellation.user_id,
+    type,
+    step,
+    downsell_variant: cancellation.downsell_variant,
+    data,
+  })
+
+  if (error) throw error
+}
+
+function toSummary(row: Cancellation, user: Pick<User, "email">): CancellationSummary {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    email: user.email,
+    subscription_id: row.subscription_id,
+    experiment_id: row.experiment_id,
+    downsell_variant: row.downsell_variant,
+    status: row.status,
+    locale: row.locale,
+    content_version: row.content_version,
+    created_at: row.created_at,
+  }
+}
+
+export async function listUserCancellations(email: string): Promise<CancellationSummary[]> {
+  const { data: user, error: userError } = await supabase
+    .from("users")
+    .select("id, email")
+    .eq("email", email)
+    .maybeSingle()
+
+  if (userError) throw userError
+  if (!user) throw new ApiError(404, "User not found")
+
+  const { data, error } = await supabase
+    .from("cancellations")
+    .select("*")
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: false })
+
+  if (error) throw error
+  return (data as Cancellation[]).map((row) => toSummary(row, user))
+}
+
+export async function getReplay(
+  cancellationId: string,
+): Promise<{ cancellation: CancellationSummary; events: CancellationEvent[] }> {
+  const { data: row, error } = await supabase
+    .from("cancellations")
+    .select("*")
+    .eq("id", cancellationId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!row) throw new ApiError(404, "Cancellation not found")
+
+  const { data: user, error: userError } = await supabase
+    .from("users")
+    .select("email")
+    .eq("id", row.user_id)
+    .single()
+
+  if (userError) throw userError
+
+  const { data: events, error: eventsError } = await supabase
+    .from("cancellation_events")
+    .select("*")
+    .eq("cancellation_id", cancellationId)
+    .order("id", { ascending: true })
+
+  if (eventsError) throw eventsError
+  return { cancellation: toSummary(row, user), events }
+}
@@ -0,0 +1,54 @@
+// Server-side session resolution for route handlers and server components
+// The user comes from a Supabase access token, never from the request body
+import { cookies, headers } from "next/headers"
+import { supabaseAdmin } from "@/lib/supabase"
+import { ApiError } from "@/lib/api"
+
+// Cookie holding the Supabase access token for same-origin requests
+export const AUTH_COOKIE = "sb-access-token"
+
+export interface SessionUser {
+  id: string
+  email: string
+}
+
+// Prefers an explicit bearer token, falling back to the auth cookie
+async function getAccessToken(): Promise<string | null> {
+  const authorization = (await headers()).get("authorization")
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    return authorization.slice("bearer ".length).trim() || null
+  }
+
+  return (await cookies()).get(AUTH_COOKIE)?.value ?? null
+}
+
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const token = await getAccessToken()
+  if (!token) return null
+
+  const { data, error } = await supabaseAdmin.auth.getUser(token)
+  if (error || !data.user) return null
+
+  return { id: data.user.id, email: data.user.email ?? "" }
+}
+
+export async function requireUser(): Promise<SessionUser> {
+  const user = await getSessionUser()
+  if (!user) throw new ApiError(401, "Authentication required")
+  return user
+}
+
+// Admin pages and APIs - the role lives on our users row, not in the auth token
+export async function requireAdmin(): Promise<SessionUser> {
+  const user = await requireUser()
+
+  const { data, error } = await supabaseAdmin
+    .from("users")
+    .select("role")
+    .eq("id", user.id)
+    .maybeSingle()
+
+  if (error) throw error
+  if (data?.role !== "admin") throw new ApiError(403, "Admin access required")
+  return user
+}
@@ -0,0 +1,156 @@
+// Fake billing provider for local development - keeps customer state in memory,
+// or in a JSON file when FAKE_BILLING_FILE is set so it survives restarts and can be inspected.
+// Invoices are generated from the subscription's history rather than stored.
+import { promises as fs } from "fs"
+import { addMonths } from "@/lib/pricing"
+import type { BillingProvider, ProviderInvoice } from "@/lib/billing"
+import type { Subscription, SubscriptionDiscount } from "@/types/database"
+
+interface FakeCoupon {
+  discounted_price: number
+  starts_at: string
+  ends_at: string | null
+}
+
+interface FakeCustomer {
+  cancel_at_period_end: boolean
+  coupon: FakeCoupon | null
+  // Earlier coupons, kept so past invoices stay discounted after a coupon is removed
+  expired_coupons: FakeCoupon[]
+  card_last4: string
+}
+
+type FakeState = Record<string, FakeCustomer>
+
+const NEW_CUSTOMER: FakeCustomer = {
+  cancel_at_period_end: false,
+  coupon: null,
+  expired_coupons: [],
+  card_last4: "4242",
+}
+
+function couponPrice(coupons: FakeCoupon[], at: Date): number | null {
+  const coupon = coupons.find(
+    (c) => new Date(c.starts_at) <= at && (c.ends_at === null || new Date(c.ends_at) > at),
+  )
+  return coupon ? coupon.discounted_price : null
+}
+
+// Renews monthly from current_period_end, counting from it each time so a period ending on the 31st
+// comes back to the 31st after a shorter month
+function renewedPeriodEnd(periodEnd: string, now: Date): Date {
+  let months = 0
+  let end = new Date(periodEnd)
+  while (end <= now) end = addMonths(periodEnd, ++months)
+  return end
+}
+
+// One invoice per billing period up to the current one, which ends at current_period_end
+function generateInvoices(subscription: Subscription, customer: FakeCustomer): ProviderInvoice[] {
+  const coupons = [...(customer.coupon ? [customer.coupon] : []), ...customer.expired_coupons]
+  const invoices: ProviderInvoice[] = []
+  const created = new Date(subscription.created_at)
+
+  for (let end = new Date(subscription.current_period_end); end > created; ) {
+    const start = addMonths(end, -1)
+    const discountedPrice = couponPrice(coupons, start)
+    invoices.push({
+      id: `fake_in_${subscription.id.slice(0, 8)}_${start.toISOString().slice(0, 10)}`,
+      subscription_id: subscription.id,
+      amount: discountedPrice ?? subscription.monthly_price,
+      subtotal: subscription.monthly_price, // The fake keeps no price history
+      currency: subscription.currency,
+      status: "paid",
+      period_start: start.toISOString(),
+      period_end: end.toISOString(),
+      discounted: discountedPrice !== null,
+      created_at: start.toISOString(),
+    })
+    end = start
+  }
+  return invoices
+}
+
+export function createFakeProvider(): BillingProvider {
+  const file = process.env.FAKE_BILLING_FILE
+  let state: FakeState | null = null
+
+  async function load(): Promise<FakeState> {
+    if (state) return state
+    if (!file) return (state = {})
+    try {
+      state = JSON.parse(await fs.readFile(file, "utf8")) as FakeState
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+      state = {}
+    }
+    return state
+  }
+
+  async function update(subscriptionId: string, change: (customer: FakeCustomer) => void): Promise<FakeCustomer> {
+    const customers = await load()
+    const customer = customers[subscriptionId] ?? structuredClone(NEW_CUSTOMER)
+    change(customer)
+    customers[subscriptionId] = customer
+    if (file) await fs.writeFile(file, JSON.stringify(customers, null, 2))
+    return customer
+  }
+
+  function retireCoupon(customer: FakeCustomer, at: string) {
+    if (!customer.coupon) return
+    customer.expired_coupons.push({ ...customer.coupon, ends_at: at })
+    customer.coupon = null
+  }
+
+  return {
+    name: "fake",
+
+    async cancelAtPeriodEnd(subscription) {
+      await update(subscription.id, (customer) => {
+        customer.cancel_at_period_end = true
+      })
+    },
+
+    async resume(subscription) {
+      await update(subscription.id, (customer) => {
+        customer.cancel_at_period_end = false
+      })
+    },
+
+    async applyCoupon(subscription, discount: SubscriptionDiscount) {
+      await update(subscription.id, (customer) => {
+        retireCoupon(customer, discount.starts_at)
+        customer.coupon = {
+          discounted_price: discount.discounted_price,
+          starts_at: discount.starts_at,
+          ends_at: discount.ends_at,
+        }
+      })
+    },
+
+    async removeCoupon(subscription) {
+      await update(subscription.id, (customer) => retireCoupon(customer, new Date().toISOString()))
+    },
+
+    async currentPeriodEnd(subscription, now) {
+      const customers = await load()
+      if (customers[subscription.id]?.cancel_at_period_end) return subscription.current_period_end
+      return renewedPeriodEnd(subscription.current_period_end, now).toISOString()
+    },
+
+    async listInvoices(subscription) {
+      const customers = await load()
+      return generateInvoices(subscription, customers[subscription.id] ?? NEW_CUSTOMER)
+    },
+
+    async updateCard(subscription, returnUrl) {
+      // A real provider collects the card on its own page; the fake just issues a new test card
+      await update(subscription.id, (customer) => {
+        customer.card_last4 = String(Math.floor(1000 + Math.random() * 9000))
+      })
+      const url = new URL(returnUrl)
+      url.searchParams.set("payment_method", "updated")
+      return { url: url.toString() }
+    },
+  }
+}
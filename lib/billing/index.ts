@@ -0,0 +1,50 @@
+// Billing provider registry - the payment processor behind subscriptions, picked with BILLING_PROVIDER
+// Supabase stays the source of truth for the app; providers mirror each change so the customer is billed to match
+import { createFakeProvider } from "@/lib/billing/fake"
+import type { Currency } from "@/lib/money"
+import type { Subscription, SubscriptionDiscount } from "@/types/database"
+
+export interface ProviderInvoice {
+  id: string
+  subscription_id: string
+  amount: number // Minor units of currency
+  subtotal: number // Before any discount, at the price the subscription had then
+  currency: Currency
+  status: "paid" | "open" | "void"
+  period_start: string
+  period_end: string
+  discounted: boolean
+  created_at: string
+}
+
+export interface BillingProvider {
+  name: string
+  // Stop renewing; the customer keeps access until the current period ends
+  cancelAtPeriodEnd(subscription: Subscription): Promise<void>
+  // Undo cancelAtPeriodEnd while the period is still running
+  resume(subscription: Subscription): Promise<void>
+  // Replaces any existing coupon
+  applyCoupon(subscription: Subscription, discount: SubscriptionDiscount): Promise<void>
+  removeCoupon(subscription: Subscription): Promise<void>
+  // End of the period the customer is billed for at now, after any renewals since current_period_end
+  currentPeriodEnd(subscription: Subscription, now: Date): Promise<string>
+  // Newest first
+  listInvoices(subscription: Subscription): Promise<ProviderInvoice[]>
+  // Returns the provider-hosted page where the customer enters a new card, which sends them back to returnUrl
+  updateCard(subscription: Subscription, returnUrl: string): Promise<{ url: string }>
+}
+
+const PROVIDERS = {
+  fake: createFakeProvider,
+} satisfies Record<string, () => BillingProvider>
+
+let provider: BillingProvider | null = null
+
+export function getBillingProvider(): BillingProvider {
+  if (provider) return provider
+
+  const name = process.env.BILLING_PROVIDER ?? "fake"
+  if (!Object.hasOwn(PROVIDERS, name)) throw new Error(`Unknown billing provider: ${name}`)
+  provider = PROVIDERS[name as keyof typeof PROVIDERS]()
+  return provider
+}
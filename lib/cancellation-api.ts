@@ -0,0 +1,224 @@
+// Cancellation API - sessions, step answers, offers and progress, as used by useCancellationFlow
+import { z } from "zod"
+import { flowContentSchema } from "@/lib/content-api"
+import { localeSchema } from "@/lib/locale-api"
+import { currencySchema, moneySchema } from "@/lib/money-api"
+
+export const cancellationIdSchema = z.string().uuid()
+
+// Experiment arm key - arms are data, so any key is valid on the wire
+export const downsellVariantSchema = z.string().min(1)
+export const cancellationStatusSchema = z.enum(["in_progress", "offer_accepted", "cancelled", "expired", "reactivated"])
+
+// Every screen of the cancellation flow
+export const flowStepSchema = z.enum([
+  "job-question",
+  "survey",
+  "feedback",
+  "congratulations",
+  "visa-support",
+  "visa-yes",
+  "visa-no",
+  "success",
+  "success-alt",
+  "retention-offer",
+  "retention-accepted",
+  "retention-survey",
+  "retention-reason",
+  "retention-price",
+  "retention-platform",
+  "retention-jobs",
+  "retention-move",
+  "retention-other",
+  "retention-final",
+])
+
+// Snapshot of the flow UI, saved as the user goes so the flow can be resumed
+export const flowProgressSchema = z.object({
+  step: flowStepSchema,
+  hasJob: z.boolean().nullable(),
+  surveyData: z.object({
+    foundJobWithMM: z.boolean().nullable(),
+    rolesApplied: z.string().nullable(),
+    companiesEmailed: z.string().nullable(),
+    companiesInterviewed: z.string().nullable(),
+  }),
+  feedback: z.string().max(500),
+  hasLawyer: z.boolean().nullable(),
+  visaType: z.string().max(100), // The catalog visa's name, or what the user typed for "other"
+  visaCode: z.string().max(40).nullable().default(null), // Catalog code or "other" (lib/visas.ts)
+  history: z.array(flowStepSchema).max(50).default([]), // Steps passed on the way here, for back navigation
+  retentionData: z.object({
+    rolesApplied: z.string().nullable(),
+    companiesEmailed: z.string().nullable(),
+    companiesInterviewed: z.string().nullable(),
+    cancellationReason: z.string().nullable(),
+    maxPrice: z.string().max(20),
+    reasonFeedback: z.string().max(500),
+  }),
+})
+
+// Bounded so no discount can take a price below zero or above the full price
+export const downsellDiscountSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("percent_off"), percentOff: z.number().min(0).max(100) }),
+  z.object({ type: z.literal("amount_off"), amountOff: moneySchema.extend({ amount: z.number().int().min(0) }) }),
+  z.object({ type: z.literal("free_months"), months: z.number().int().min(1) }),
+])
+
+export const offerTermSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("until_job_found"), price: moneySchema }),
+  z.object({ type: z.literal("free_months"), months: z.number().int(), priceAfter: moneySchema }),
+])
+
+export const downsellOfferSchema = z.object({
+  variant: downsellVariantSchema,
+  discount: downsellDiscountSchema,
+  label: z.string(),
+  originalPrice: moneySchema,
+  term: offerTermSchema,
+})
+
+// Structured answers collected so far, stored in cancellation_responses
+export const cancellationAnswersSchema = z.object({
+  has_job: z.boolean().nullable(),
+  found_job_with_mm: z.boolean().nullable(),
+  roles_applied: z.string().nullable(),
+  companies_emailed: z.string().nullable(),
+  companies_interviewed: z.string().nullable(),
+  feedback: z.string().nullable(),
+  reason: z.string().nullable(),
+  reason_feedback: z.string().nullable(),
+  max_price: moneySchema.nullable(),
+  has_lawyer: z.boolean().nullable(),
+  visa_code: z.string().nullable(),
+  visa_type: z.string().nullable(),
+})
+
+// Offers the eligibility rules in lib/offer-eligibility.ts decide on
+export const retentionOfferSchema = z.enum(["downsell"])
+
+// The offers a session may show, and for each one it may not, the ids of the rules that block it
+export const offerEligibilitySchema = z.object({
+  allowed: z.array(retentionOfferSchema),
+  blocked: z.array(z.object({ offer: retentionOfferSchema, rules: z.array(z.string()) })),
+})
+
+export const cancellationSessionSchema = z.object({
+  id: cancellationIdSchema,
+  user_id: z.string().uuid(),
+  subscription_id: z.string().uuid(),
+  experiment_id: z.string().uuid().nullable(),
+  downsell_variant: downsellVariantSchema,
+  status: cancellationStatusSchema,
+  reason: z.string().nullable(),
+  accepted_downsell: z.boolean(),
+  created_at: z.string(),
+  offer: downsellOfferSchema.nullable(),
+  offer_eligibility: offerEligibilitySchema, // Decided when the session started
+  answers: cancellationAnswersSchema,
+  progress: flowProgressSchema.nullable(),
+  current_period_end: z.string(), // When a confirmed cancellation takes effect
+  last_activity_at: z.string(),
+  expires_at: z.string(),
+  content_version: z.number().int().nullable(), // null when the built-in content was shown
+  content: flowContentSchema,
+  locale: localeSchema, // Language the flow is shown in
+  currency: currencySchema, // The subscription's; prices and the retention-price answer are in it
+})
+
+// Step answers - one entry per screen that collects input
+// Options and minimum lengths are content, so the API checks them against the session's content version
+const optionAnswerSchema = z.string().trim().min(1).max(100)
+const feedbackAnswerSchema = z.string().trim().min(1).max(500)
+
+export const stepAnswersSchema = z.discriminatedUnion("step", [
+  z.object({
+    step: z.literal("job-question"),
+    has_job: z.boolean(),
+  }),
+  z.object({
+    step: z.literal("survey"),
+    found_job_with_mm: z.boolean(),
+    roles_applied: optionAnswerSchema,
+    companies_emailed: optionAnswerSchema,
+    companies_interviewed: optionAnswerSchema,
+  }),
+  z.object({
+    step: z.literal("feedback"),
+    feedback: feedbackAnswerSchema,
+  }),
+  z.object({
+    step: z.literal("visa"),
+    has_lawyer: z.boolean(),
+    visa_code: z.string().max(40), // Normalized by the API, so typed "other" answers that name a catalog visa get its code
+    visa_type: z.string().trim().min(1).max(100),
+  }),
+  z.object({
+    step: z.literal("retention-survey"),
+    roles_applied: optionAnswerSchema,
+    companies_emailed: optionAnswerSchema,
+    companies_interviewed: optionAnswerSchema,
+  }),
+  z.object({
+    step: z.literal("retention-reason"),
+    reason: optionAnswerSchema,
+  }),
+  z.object({
+    step: z.literal("retention-price"),
+    max_price: moneySchema.extend({ amount: z.number().int().min(0) }), // In the subscription's currency
+  }),
+  z.object({
+    step: z.literal("retention-feedback"),
+    reason_feedback: feedbackAnswerSchema,
+  }),
+])
+
+// POST /api/cancellations - the user comes from the session, not the body
+export const startCancellationRequestSchema = z.object({
+  subscription_id: z.string().uuid(),
+  locale: localeSchema, // Language the flow is shown in; a resumed session switches to it
+})
+
+// POST /api/cancellations/:id/steps
+export const submitStepRequestSchema = stepAnswersSchema
+
+// PUT /api/cancellations/:id/progress
+export const saveProgressRequestSchema = z.object({
+  progress: flowProgressSchema,
+})
+
+// POST /api/cancellations/:id/accept-offer and /confirm take no body
+export const acceptOfferRequestSchema = z.object({}).strict()
+export const confirmCancellationRequestSchema = z.object({}).strict()
+
+// Every successful call returns the session as it stands after the call
+export const sessionResponseSchema = z.object({
+  success: z.literal(true),
+  cancellation: cancellationSessionSchema,
+})
+
+// Set on errors a client may want to tell apart from others with the same status
+export const ERROR_CODES = {
+  // The first request with this Idempotency-Key hasn't finished; sending it again later gets its response
+  requestInProgress: "request_in_progress",
+} as const
+
+export const errorResponseSchema = z.object({
+  success: z.literal(false),
+  message: z.string(),
+  code: z.string().optional(),
+})
+
+export type CancellationStatus = z.infer<typeof cancellationStatusSchema>
+export type FlowStep = z.infer<typeof flowStepSchema>
+export type FlowProgress = z.infer<typeof flowProgressSchema>
+export type CancellationAnswers = z.infer<typeof cancellationAnswersSchema>
+export type RetentionOffer = z.infer<typeof retentionOfferSchema>
+export type OfferEligibility = z.infer<typeof offerEligibilitySchema>
+export type CancellationSession = z.infer<typeof cancellationSessionSchema>
+export type StepAnswers = z.infer<typeof stepAnswersSchema>
+export type StartCancellationRequest = z.infer<typeof startCancellationRequestSchema>
+export type SubmitStepRequest = z.infer<typeof submitStepRequestSchema>
+export type SaveProgressRequest = z.infer<typeof saveProgressRequestSchema>
+export type SessionResponse = z.infer<typeof sessionResponseSchema>
+export type ErrorResponse = z.infer<typeof errorResponseSchema>
@@ -0,0 +1,359 @@
+// Cancellation session service - the data access behind /api/cancellations
+import { supabaseAdmin as supabase } from "@/lib/supabase"
+import { ApiError } from "@/lib/api"
+import { canApplyDiscount, resolveDownsellOffer, type DownsellOffer } from "@/lib/offers"
+import { DEFAULT_CURRENCY, money, type Money } from "@/lib/money"
+import { getMonthlyPrice } from "@/lib/pricing"
+import { assignArm, CONTROL_ARM, findArm, findExperimentFor, getExperiment } from "@/lib/experiments"
+import { getOfferEligibility, isAllowed } from "@/lib/offer-eligibility"
+import { getOwnedSubscription, getSubscription } from "@/lib/subscriptions"
+import { buildDownsellDiscount } from "@/lib/discounts"
+import { afterBilling, callFunction, UNIQUE_VIOLATION } from "@/lib/db"
+import { getBillingProvider } from "@/lib/billing"
+import { getPublishedVersion, getSessionContent } from "@/lib/content"
+import { validateAnswers } from "@/lib/flow-content"
+import { recordEvent } from "@/lib/audit"
+import { notify } from "@/lib/emails"
+import { createVisaSupportRequest } from "@/lib/visa-support"
+import { normalizeVisaAnswer } from "@/lib/visas"
+import {
+  flowProgressSchema,
+  type CancellationAnswers,
+  type CancellationSession,
+  type FlowProgress,
+  type StepAnswers,
+} from "@/lib/cancellation-api"
+import type { RecordEventRequest } from "@/lib/audit-api"
+import type { Locale } from "@/lib/i18n"
+import type { Cancellation, CancellationResponse, Subscription } from "@/types/database"
+
+// Open sessions with no activity for this long are expired and the user starts over
+export const SESSION_TTL_MS = 72 * 60 * 60 * 1000
+
+const EMPTY_ANSWERS: CancellationAnswers = {
+  has_job: null,
+  found_job_with_mm: null,
+  roles_applied: null,
+  companies_emailed: null,
+  companies_interviewed: null,
+  feedback: null,
+  reason: null,
+  reason_feedback: null,
+  max_price: null,
+  has_lawyer: null,
+  visa_code: null,
+  visa_type: null,
+}
+
+async function getCancellationRow(userId: string, cancellationId: string): Promise<Cancellation> {
+  const { data, error } = await supabase
+    .from("cancellations")
+    .select("*")
+    .eq("id", cancellationId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) throw new ApiError(404, "Cancellation not found")
+  if (data.user_id !== userId) throw new ApiError(403, "You do not have access to this cancellation")
+  return data
+}
+
+async function updateCancellationRow(cancellationId: string, changes: Partial<Cancellation>): Promise<Cancellation> {
+  const { data, error } = await supabase
+    .from("cancellations")
+    .update({ ...changes, last_activity_at: new Date().toISOString() })
+    .eq("id", cancellationId)
+    .select("*")
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+async function getAnswers(cancellationId: string): Promise<CancellationAnswers> {
+  const { data, error } = await supabase
+    .from("cancellation_responses")
+    .select("*")
+    .eq("cancellation_id", cancellationId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return EMPTY_ANSWERS
+
+  const { id, cancellation_id, created_at, updated_at, max_price, max_price_currency, ...answers } =
+    data as CancellationResponse
+  return {
+    ...answers,
+    // Answers saved before subscriptions had a currency were all in USD
+    max_price: max_price === null ? null : money(max_price, max_price_currency ?? DEFAULT_CURRENCY),
+  } as CancellationAnswers
+}
+
+// cancellation_responses keeps a price as an amount and a currency column, and visas by catalog code
+function toResponseColumns({ step, ...answers }: StepAnswers): Partial<CancellationResponse> {
+  if ("max_price" in answers) {
+    return { max_price: answers.max_price.amount, max_price_currency: answers.max_price.currency }
+  }
+  if ("visa_code" in answers) {
+    return { ...answers, ...normalizeVisaAnswer(answers.visa_code, answers.visa_type) }
+  }
+  return answers
+}
+
+// Prices the offer of the experiment arm this cancellation was assigned to
+async function getOffer(row: Cancellation, monthlyPrice: Money): Promise<DownsellOffer | null> {
+  const arm = findArm(await getExperiment(row.experiment_id), row.downsell_variant)
+  // The arm may have been edited since assignment; never price an amount in the wrong currency
+  if (!canApplyDiscount(monthlyPrice, arm.offer)) return null
+  return resolveDownsellOffer(arm.key, arm.offer, monthlyPrice)
+}
+
+async function toSession(row: Cancellation, subscription?: Subscription): Promise<CancellationSession> {
+  const resolved = subscription ?? (await getSubscription(row.subscription_id))
+
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    subscription_id: row.subscription_id,
+    experiment_id: row.experiment_id,
+    downsell_variant: row.downsell_variant,
+    status: row.status,
+    reason: row.reason ?? null,
+    accepted_downsell: row.accepted_downsell,
+    created_at: row.created_at,
+    offer: await getOffer(row, getMonthlyPrice(resolved)),
+    // Sessions from before the rules are judged by them as they stand now
+    offer_eligibility: row.offer_eligibility ?? (await getOfferEligibility(resolved)),
+    answers: await getAnswers(row.id),
+    progress: flowProgressSchema.safeParse(row.progress).data ?? null,
+    current_period_end: resolved.current_period_end,
+    last_activity_at: row.last_activity_at,
+    expires_at: new Date(new Date(row.last_activity_at).getTime() + SESSION_TTL_MS).toISOString(),
+    content_version: row.content_version,
+    content: await getSessionContent(row.content_version),
+    locale: row.locale,
+    currency: resolved.currency,
+  }
+}
+
+function isStale(row: Cancellation): boolean {
+  return Date.now() - new Date(row.last_activity_at).getTime() > SESSION_TTL_MS
+}
+
+async function expire(row: Cancellation) {
+  const { data, error } = await supabase
+    .from("cancellations")
+    .update({ status: "expired" })
+    .eq("id", row.id)
+    .eq("status", "in_progress")
+    .select("id")
+
+  if (error) throw error
+  if (data.length > 0) await recordEvent(row, "session_expired")
+}
+
+// Only open, unexpired sessions accept writes; stale ones are expired on first touch
+async function assertInProgress(row: Cancellation) {
+  if (row.status !== "in_progress") {
+    throw new ApiError(409, `Cancellation is already ${row.status.replace("_", " ")}`)
+  }
+  if (isStale(row)) {
+    await expire(row)
+    throw new ApiError(410, "Cancellation session has expired")
+  }
+}
+
+// Resumes the open session for this subscription, or starts a new one.
+// A user keeps the arm from their first session in an experiment, even if its weights change later.
+// created is false when an open session was resumed instead
+export async function startCancellation(
+  userId: string,
+  subscriptionId: string,
+  locale: Locale,
+): Promise<{ cancellation: CancellationSession; created: boolean }> {
+  const subscription = await getOwnedSubscription(userId, subscriptionId)
+  if (subscription.status !== "active") {
+    throw new ApiError(409, "Subscription is not active")
+  }
+
+  const { data: previous, error } = await supabase
+    .from("cancellations")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("subscription_id", subscriptionId)
+    .order("created_at", { ascending: false })
+
+  if (error) throw error
+
+  const open = previous?.find((row: Cancellation) => row.status === "in_progress")
+  if (open && !isStale(open)) {
+    // Record the language the rest of the flow is shown in
+    const resumed = open.locale === locale ? open : await updateCancellationRow(open.id, { locale })
+    await recordEvent(resumed, "session_resumed", resumed.current_step, { locale })
+    return { cancellation: await toSession(resumed, subscription), created: false }
+  }
+  if (open) await expire(open)
+
+  // Users who may not be offered a downsell stay out of experiments, which only differ in the downsell
+  const eligibility = await getOfferEligibility(subscription)
+  const experiment = isAllowed(eligibility, "downsell") ? await findExperimentFor(subscription) : null
+  const earlier = experiment && previous?.find((row: Cancellation) => row.experiment_id === experiment.id)
+  const arm = !experiment
+    ? CONTROL_ARM
+    : earlier
+      ? findArm(experiment, earlier.downsell_variant)
+      : assignArm(experiment, userId)
+
+  // The session keeps the copy it started with even if a new version is published mid-flow
+  const content = await getPublishedVersion()
+
+  const { data: created, error: insertError } = await supabase
+    .from("cancellations")
+    .insert({
+      user_id: userId,
+      subscription_id: subscriptionId,
+      experiment_id: experiment?.id ?? null,
+      downsell_variant: arm.key,
+      content_version: content?.version ?? null,
+      locale,
+      offer_eligibility: eligibility,
+    })
+    .select("*")
+    .single()
+
+  if (insertError?.code === UNIQUE_VIOLATION) {
+    // A concurrent request opened a session first; resume that one
+    const { data: concurrent, error: openError } = await supabase
+      .from("cancellations")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("subscription_id", subscriptionId)
+      .eq("status", "in_progress")
+      .single()
+
+    if (openError) throw openError
+    return { cancellation: await toSession(concurrent, subscription), created: false }
+  }
+  if (insertError) throw insertError
+  await recordEvent(created, "session_started", null, {
+    experiment_id: created.experiment_id,
+    content_version: created.content_version,
+    locale,
+    offers_blocked: eligibility.blocked,
+  })
+  return { cancellation: await toSession(created, subscription), created: true }
+}
+
+export async function getCancellation(userId: string, cancellationId: string): Promise<CancellationSession> {
+  return toSession(await getCancellationRow(userId, cancellationId))
+}
+
+// Step answer fields are named after their cancellation_responses columns,
+// so each submission is merged into the row as-is, in the same transaction that touches the session
+export async function submitStep(
+  userId: string,
+  cancellationId: string,
+  answers: StepAnswers,
+): Promise<CancellationSession> {
+  const row = await getCancellationRow(userId, cancellationId)
+  await assertInProgress(row)
+
+  const invalid = validateAnswers(answers, await getSessionContent(row.content_version))
+  if (invalid) throw new ApiError(400, invalid)
+
+  const subscription = await getSubscription(row.subscription_id)
+  if (answers.step === "retention-price" && answers.max_price.currency !== subscription.currency) {
+    throw new ApiError(400, `Price must be in ${subscription.currency}`)
+  }
+
+  const updated = await callFunction<Cancellation>("submit_cancellation_step", {
+    p_cancellation_id: cancellationId,
+    p_step: answers.step,
+    p_answers: toResponseColumns(answers),
+  })
+  return toSession(updated, subscription)
+}
+
+export async function saveProgress(
+  userId: string,
+  cancellationId: string,
+  progress: FlowProgress,
+): Promise<CancellationSession> {
+  const row = await getCancellationRow(userId, cancellationId)
+  await assertInProgress(row)
+
+  return toSession(await updateCancellationRow(cancellationId, { current_step: progress.step, progress }))
+}
+
+export async function acceptOffer(userId: string, cancellationId: string): Promise<CancellationSession> {
+  const row = await getCancellationRow(userId, cancellationId)
+  await assertInProgress(row)
+
+  const subscription = await getSubscription(row.subscription_id)
+  const offer = await getOffer(row, getMonthlyPrice(subscription))
+  if (!offer) throw new ApiError(409, "No offer available for this cancellation")
+  // Checked again in case the user took a downsell elsewhere since the session started
+  if (!isAllowed(await getOfferEligibility(subscription), "downsell")) {
+    throw new ApiError(409, "This offer is no longer available")
+  }
+
+  const discount = buildDownsellDiscount(subscription, cancellationId, offer)
+  await getBillingProvider().applyCoupon(subscription, discount)
+
+  const updated = await afterBilling("Your discount was applied but could not be saved; please try again", () =>
+    callFunction<Cancellation>("accept_cancellation_offer", {
+      p_cancellation_id: cancellationId,
+      p_discount_id: discount.id,
+      p_discounted_price: discount.discounted_price,
+      p_term: discount.term,
+      p_starts_at: discount.starts_at,
+      p_ends_at: discount.ends_at,
+    }),
+  )
+
+  await notify(row.user_id, {
+    template: "downsell-accepted",
+    term: offer.term,
+    originalPrice: offer.originalPrice,
+    discount,
+  }, row.locale)
+  return toSession(updated, subscription)
+}
+
+export async function confirmCancellation(userId: string, cancellationId: string): Promise<CancellationSession> {
+  const row = await getCancellationRow(userId, cancellationId)
+  await assertInProgress(row)
+
+  const subscription = await getSubscription(row.subscription_id)
+  await getBillingProvider().cancelAtPeriodEnd(subscription)
+
+  // The session and subscription change together, or neither does
+  const updated = await afterBilling("Billing was stopped but the cancellation could not be saved; please try again", () =>
+    callFunction<Cancellation>("confirm_cancellation", { p_cancellation_id: cancellationId }),
+  )
+
+  await notify(row.user_id, { template: "cancellation-confirmed", periodEnd: subscription.current_period_end }, row.locale)
+  return toSession(updated)
+}
+
+// Hands the user over to the visa team with what they answered on the visa step
+// Only for a confirmed cancellation whose saved answers say the user has no immigration lawyer;
+// the lead takes its visa from those answers
+export async function requestVisaSupport(userId: string, cancellationId: string): Promise<CancellationSession> {
+  const row = await getCancellationRow(userId, cancellationId)
+  if (row.status !== "cancelled") throw new ApiError(409, "Visa support is only available once the cancellation is confirmed")
+
+  const { has_lawyer, visa_code, visa_type } = await getAnswers(row.id)
+  if (has_lawyer !== false) throw new ApiError(409, "Visa support is only available to users without an immigration lawyer")
+  if (visa_code === null || visa_type === null) throw new ApiError(409, "No visa was saved for this cancellation")
+
+  await createVisaSupportRequest(row, { visa_code, visa_type })
+  return toSession(row)
+}
+
+// What happened in the browser - steps entered, offers seen, back and close - for the session's audit trail.
+// Closing a finished session is still recorded, so only ownership is checked.
+export async function recordFlowEvent(userId: string, cancellationId: string, event: RecordEventRequest): Promise<void> {
+  const row = await getCancellationRow(userId, cancellationId)
+  await recordEvent(row, event.type, event.step)
+}
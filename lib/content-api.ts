@@ -0,0 +1,84 @@
+// Flow content admin API - the copy and answer options the cancellation flow shows, stored as numbered versions
+import { z } from "zod"
+import { localeSchema } from "@/lib/locale-api"
+
+// Steps a cancellation reason can lead to; the views for these exist, so new reasons pick one of them
+export const reasonFollowUpSchema = z.enum([
+  "retention-price",
+  "retention-platform",
+  "retention-jobs",
+  "retention-move",
+  "retention-other",
+])
+
+export const cancellationReasonOptionSchema = z.object({
+  label: z.string().trim().min(1).max(100), // Also the value stored as the answer
+  follow_up: reasonFollowUpSchema.nullable(), // null goes straight to the end of the flow
+  translations: z.record(localeSchema, z.string().trim().min(1).max(100)).default({}), // Shown instead of the label
+})
+
+const optionListSchema = z
+  .array(z.string().trim().min(1).max(50))
+  .min(1)
+  .max(20)
+  .refine((options) => new Set(options).size === options.length, "Options must be unique")
+
+export const flowOptionsSchema = z.object({
+  role_options: optionListSchema,
+  interview_options: optionListSchema,
+  reasons: z
+    .array(cancellationReasonOptionSchema)
+    .min(1)
+    .max(20)
+    .refine((reasons) => new Set(reasons.map((r) => r.label)).size === reasons.length, "Reasons must be unique"),
+  min_feedback_length: z.number().int().min(1).max(500),
+})
+
+// Copy is keyed by locale, then message id (see lib/messages); anything a version leaves out falls back to the catalog
+export const flowContentSchema = z.object({
+  options: flowOptionsSchema,
+  copy: z.record(localeSchema, z.record(z.string().max(1000))),
+})
+
+export const contentVersionNumberSchema = z.coerce.number().int().min(1)
+
+export const contentVersionSummarySchema = z.object({
+  version: z.number().int(),
+  note: z.string().nullable(),
+  created_at: z.string(),
+  published_at: z.string().nullable(),
+  current: z.boolean(), // The version new cancellations are started with
+})
+
+export const contentVersionSchema = contentVersionSummarySchema.extend({
+  content: flowContentSchema,
+})
+
+// POST /api/admin/content - saves a draft; nothing changes for users until it's published
+export const createContentVersionRequestSchema = z.object({
+  content: flowContentSchema,
+  note: z.string().trim().max(200).optional(),
+})
+
+// GET /api/admin/content
+export const contentVersionsResponseSchema = z.object({
+  success: z.literal(true),
+  versions: z.array(contentVersionSummarySchema),
+  defaults: flowContentSchema, // Built-in options, used while no version is published; its copy is the catalogs
+})
+
+// POST /api/admin/content, GET /api/admin/content/:version, POST /api/admin/content/:version/publish
+export const contentVersionResponseSchema = z.object({
+  success: z.literal(true),
+  version: contentVersionSchema,
+})
+
+export type ReasonFollowUp = z.infer<typeof reasonFollowUpSchema>
+export type CancellationReasonOption = z.infer<typeof cancellationReasonOptionSchema>
+export type FlowOptions = z.infer<typeof flowOptionsSchema>
+export type FlowContent = z.infer<typeof flowContentSchema>
+export type ContentVersionSummary = z.infer<typeof contentVersionSummarySchema>
+export type ContentVersion = z.infer<typeof contentVersionSchema>
+export type CreateContentVersionRequest = z.infer<typeof createContentVersionRequestSchema>
+export type ContentVersionsResponse = z.infer<typeof contentVersionsResponseSchema>
+export type ContentVersionResponse = z.infer<typeof contentVersionResponseSchema>
@@ -0,0 +1,101 @@
+// Flow content service - versioned admin edits to the cancellation flow's copy and answer options
+// Versions are never changed once saved; publishing one makes it the content new cancellations start with
+import { supabaseAdmin as supabase } from "@/lib/supabase"
+import { ApiError } from "@/lib/api"
+import { DEFAULT_FLOW_CONTENT } from "@/lib/flow-content"
+import type { ContentVersion, ContentVersionSummary, CreateContentVersionRequest, FlowContent } from "@/lib/content-api"
+import type { FlowContentVersion } from "@/types/database"
+
+function toVersion(row: FlowContentVersion, currentVersion: number | null): ContentVersion {
+  return {
+    version: row.version,
+    note: row.note,
+    created_at: row.created_at,
+    published_at: row.published_at,
+    current: row.version === currentVersion,
+    content: row.content,
+  }
+}
+
+// The live version: the most recently published one
+export async function getPublishedVersion(): Promise<FlowContentVersion | null> {
+  const { data, error } = await supabase
+    .from("flow_content_versions")
+    .select("*")
+    .not("published_at", "is", null)
+    .order("published_at", { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+async function getVersionRow(version: number): Promise<FlowContentVersion> {
+  const { data, error } = await supabase
+    .from("flow_content_versions")
+    .select("*")
+    .eq("version", version)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) throw new ApiError(404, "Content version not found")
+  return data
+}
+
+// Content a cancellation was started with
+export async function getSessionContent(version: number | null): Promise<FlowContent> {
+  return version === null ? DEFAULT_FLOW_CONTENT : (await getVersionRow(version)).content
+}
+
+export async function listContentVersions(): Promise<ContentVersionSummary[]> {
+  const [{ data, error }, published] = await Promise.all([
+    supabase
+      .from("flow_content_versions")
+      .select("version, note, created_at, published_at")
+      .order("version", { ascending: false }),
+    getPublishedVersion(),
+  ])
+
+  if (error) throw error
+  return (data as Omit<FlowContentVersion, "content" | "created_by">[]).map((row) => ({
+    ...row,
+    current: row.version === published?.version,
+  }))
+}
+
+export async function getContentVersion(version: number): Promise<ContentVersion> {
+  const [row, published] = await Promise.all([getVersionRow(version), getPublishedVersion()])
+  return toVersion(row, published?.version ?? null)
+}
+
+// Saves a draft; it can be previewed before anyone sees it
+export async function createContentVersion(
+  adminId: string,
+  { content, note }: CreateContentVersionRequest,
+): Promise<ContentVersion> {
+  const { data, error } = await supabase
+    .from("flow_content_versions")
+    .insert({ content, note: note || null, created_by: adminId })
+    .select("*")
+    .single()
+
+  if (error) throw error
+  const published = await getPublishedVersion()
+  return toVersion(data, published?.version ?? null)
+}
+
+// Makes a version live; publishing an older version again rolls back to it
+export async function publishContentVersion(version: number): Promise<ContentVersion> {
+  await getVersionRow(version)
+
+  const { data, error } = await supabase
+    .from("flow_content_versions")
+    .update({ published_at: new Date().toISOString() })
+    .eq("version", version)
+    .select("*")
+    .single()
+
+  if (error) throw error
+  return toVersion(data, data.version)
+}
@@ -0,0 +1,35 @@
+// Database function calls - multi-row writes run as one transaction in the functions defined in scripts/seed.sql
+// Services reach the database with the service role, which bypasses row level security, so each service entry
+// point checks the caller owns the records it reads or writes
+import { supabaseAdmin as supabase } from "@/lib/supabase"
+import { ApiError, PartialFailureError } from "@/lib/api"
+
+// Postgres error codes the services handle
+export const UNIQUE_VIOLATION = "23505"
+const RAISE_EXCEPTION = "P0001"
+
+// Calls a database function, turning errors it raised for the caller (HTTP status in the hint) into ApiErrors
+export async function callFunction<T>(name: string, args: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.rpc(name, args)
+
+  if (error) {
+    if (error.code === RAISE_EXCEPTION && /^\d{3}$/.test(error.hint ?? "")) {
+      throw new ApiError(Number(error.hint), error.message)
+    }
+    throw error
+  }
+  return data as T
+}
+
+// Runs the database half of a write whose billing provider half already went through.
+// Writes that touch billing call the provider first, so a provider failure leaves nothing saved and the request
+// safe to retry.
+// Errors meant for the caller pass through; anything else is reported as a partial failure to retry.
+export async function afterBilling<T>(message: string, write: () => Promise<T>): Promise<T> {
+  try {
+    return await write()
+  } catch (error) {
+    if (error instanceof ApiError) throw error
+    throw new PartialFailureError(message, error)
+  }
+}
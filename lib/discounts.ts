@@ -0,0 +1,73 @@
+// Subscription discount service - applies accepted downsells and reverts them to full price
+import crypto from "crypto"
+import { supabaseAdmin as supabase } from "@/lib/supabase"
+import { ApiError } from "@/lib/api"
+import { getOwnedSubscription } from "@/lib/subscriptions"
+import { addMonths, discountTerm, findCurrentDiscount } from "@/lib/pricing"
+import { afterBilling } from "@/lib/db"
+import { getBillingProvider } from "@/lib/billing"
+import { applyDiscount, type DownsellOffer } from "@/lib/offers"
+import type { Subscription, SubscriptionDiscount } from "@/types/database"
+
+export async function listDiscounts(subscriptionId: string): Promise<SubscriptionDiscount[]> {
+  const { data, error } = await supabase
+    .from("subscription_discounts")
+    .select("*")
+    .eq("subscription_id", subscriptionId)
+    .order("starts_at", { ascending: true })
+
+  if (error) throw error
+  return data
+}
+
+// Ends every discount that is running or scheduled, returning how many were reverted
+async function revertLiveDiscounts(subscriptionId: string, at: Date): Promise<number> {
+  const { data, error } = await supabase
+    .from("subscription_discounts")
+    .update({ reverted_at: at.toISOString() })
+    .eq("subscription_id", subscriptionId)
+    .is("reverted_at", null)
+    .or(`ends_at.is.null,ends_at.gt.${at.toISOString()}`)
+    .select("id")
+
+  if (error) throw error
+  return data.length
+}
+
+// The discount an accepted downsell creates, with its id picked up front so billing can be updated before it's saved.
+// The discounted price starts with the next billing period; the current one is already paid for.
+export function buildDownsellDiscount(
+  subscription: Subscription,
+  cancellationId: string,
+  offer: DownsellOffer,
+): SubscriptionDiscount {
+  const startsAt = new Date(subscription.current_period_end)
+  const { term, months } = discountTerm(offer.discount)
+
+  return {
+    id: crypto.randomUUID(),
+    subscription_id: subscription.id,
+    cancellation_id: cancellationId,
+    // Priced in the subscription's currency; free months are a zero price until ends_at
+    discounted_price: applyDiscount(offer.originalPrice, offer.discount).amount,
+    term,
+    starts_at: startsAt.toISOString(),
+    ends_at: months ? addMonths(startsAt, months).toISOString() : null,
+    reverted_at: null,
+    created_at: new Date().toISOString(),
+  }
+}
+
+// Returns the subscription to full price, e.g. once an "until you find a job" user has found one
+export async function revertDiscount(userId: string, subscriptionId: string): Promise<Subscription> {
+  const subscription = await getOwnedSubscription(userId, subscriptionId)
+  if (!findCurrentDiscount(await listDiscounts(subscriptionId))) {
+    throw new ApiError(404, "Subscription has no active discount")
+  }
+
+  await getBillingProvider().removeCoupon(subscription)
+  await afterBilling("Billing is back to full price but the discount could not be ended; please try again", () =>
+    revertLiveDiscounts(subscriptionId, new Date()),
+  )
+  return subscription
+}
@@ -0,0 +1,142 @@
+// Transactional email templates - subject, plain text and HTML for each email, in the recipient's language
+// Copy comes from the email section of the message catalogs (lib/messages)
+import { fillMessage, formatDate, type Locale } from "@/lib/i18n"
+import { MESSAGES, type EmailMessageKey } from "@/lib/messages"
+import { formatMoney, type Money } from "@/lib/money"
+import { escapeHtml } from "@/lib/utils"
+import type { OfferTerm } from "@/lib/offers"
+import type { SubscriptionDiscount } from "@/types/database"
+
+export type Email =
+  | { template: "cancellation-confirmed"; periodEnd: string }
+  | {
+      template: "downsell-accepted"
+      term: OfferTerm
+      originalPrice: Money
+      discount: Pick<SubscriptionDiscount, "term" | "starts_at" | "ends_at">
+    }
+  | { template: "visa-handoff"; visaType: string }
+  | { template: "reactivation-reminder"; periodEnd: string }
+
+export type EmailTemplate = Email["template"]
+
+export interface RenderedEmail {
+  subject: string
+  text: string
+  html: string
+}
+
+// A paragraph of the body, or a link shown as a button
+type Block = { paragraph: string } | { link: string; href: string }
+
+interface EmailContent {
+  subject: string
+  blocks: Block[]
+  signature?: string // Instead of the team sign-off, for emails from one person
+}
+
+function content(email: Email, locale: Locale, profileUrl: string): EmailContent {
+  const m = (key: EmailMessageKey, values?: Record<string, string | number>) =>
+    fillMessage(MESSAGES[locale].email[key], values)
+  const manage = { link: m("manage"), href: profileUrl }
+
+  switch (email.template) {
+    case "cancellation-confirmed": {
+      const date = formatDate(email.periodEnd, locale)
+      return {
+        subject: m("cancellation-confirmed.subject"),
+        blocks: [
+          { paragraph: m("cancellation-confirmed.body", { date }) },
+          { paragraph: m("cancellation-confirmed.reactivate") },
+          manage,
+        ],
+      }
+    }
+    case "downsell-accepted": {
+      const { discount } = email
+      // Free months say when paying resumes, which is the whole story
+      if (email.term.type === "free_months") {
+        return {
+          subject: m("downsell-accepted.subject"),
+          blocks: [
+            {
+              paragraph: m("downsell-accepted.free-months", {
+                date: formatDate(discount.starts_at, locale),
+                end: formatDate(discount.ends_at ?? discount.starts_at, locale),
+                original: formatMoney(email.term.priceAfter, locale),
+              }),
+            },
+            manage,
+          ],
+        }
+      }
+      const term =
+        discount.term === "until_job_found"
+          ? m("downsell-accepted.until-job")
+          : discount.ends_at
+            ? m("downsell-accepted.until", { date: formatDate(discount.ends_at, locale) })
+            : null
+      return {
+        subject: m("downsell-accepted.subject"),
+        blocks: [
+          {
+            paragraph: m("downsell-accepted.body", {
+              date: formatDate(discount.starts_at, locale),
+              price: formatMoney(email.term.price, locale),
+              original: formatMoney(email.originalPrice, locale),
+            }),
+          },
+          ...(term ? [{ paragraph: term }] : []),
+          manage,
+        ],
+      }
+    }
+    case "visa-handoff":
+      return {
+        subject: m("visa-handoff.subject"),
+        blocks: [{ paragraph: m("visa-handoff.body", { visa: email.visaType }) }, { paragraph: m("visa-handoff.reply") }],
+        signature: m("visa-handoff.signature"),
+      }
+    case "reactivation-reminder": {
+      const date = formatDate(email.periodEnd, locale)
+      return {
+        subject: m("reactivation-reminder.subject", { date }),
+        blocks: [
+          { paragraph: m("reactivation-reminder.body", { date }) },
+          { link: m("reactivation-reminder.button"), href: profileUrl },
+        ],
+      }
+    }
+  }
+}
+
+export function renderEmail(email: Email, locale: Locale, profileUrl: string): RenderedEmail {
+  const { subject, blocks, signature } = content(email, locale, profileUrl)
+  const greeting = MESSAGES[locale].email.greeting
+  const signOff = signature ?? MESSAGES[locale].email["sign-off"]
+
+  const text = [
+    greeting,
+    ...blocks.map((block) => ("paragraph" in block ? block.paragraph : `${block.link}: ${block.href}`)),
+    signOff,
+  ].join("\n\n")
+
+  const html = `<!DOCTYPE html>
+<html lang="${locale}">
+<head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>
+<body style="font-family: system-ui, sans-serif; color: #111827; font-size: 15px; line-height: 1.5; max-width: 560px; margin: 0 auto; padding: 24px;">
+<p>${escapeHtml(greeting)}</p>
+${blocks
+  .map((block) =>
+    "paragraph" in block
+      ? `<p>${escapeHtml(block.paragraph)}</p>`
+      : `<p><a href="${escapeHtml(block.href)}" style="display: inline-block; background: #8952fc; color: #ffffff; padding: 10px 18px; border-radius: 8px; text-decoration: none;">${escapeHtml(block.link)}</a></p>`,
+  )
+  .join("\n")}
+<p style="color: #6b7280;">${escapeHtml(signOff)}</p>
+</body>
+</html>
+`
+
+  return { subject, text, html }
+}
@@ -0,0 +1,35 @@
+// Transactional email service - renders a template in the user's language and hands it to the mail transport
+// Emails follow the write they announce, so a failed send is logged rather than failing that write
+import { supabaseAdmin as supabase } from "@/lib/supabase"
+import { getMailer } from "@/lib/mail"
+import { renderEmail, type Email } from "@/lib/email-templates"
+import { DEFAULT_LOCALE, type Locale } from "@/lib/i18n"
+import type { User } from "@/types/database"
+
+// Links in emails point here; the profile is the app's home page
+function profileUrl(): string {
+  return new URL("/", process.env.APP_URL ?? "http://localhost:3000").toString()
+}
+
+// Visa handoffs are signed by the visa team, so replies should reach them rather than the no-reply sender
+function replyTo(email: Email): string | undefined {
+  return email.template === "visa-handoff" ? (process.env.VISA_SUPPORT_EMAIL ?? "mihailo@migratemate.co") : undefined
+}
+
+// The language the user picked, or else the one they last saw the flow in
+export async function sendEmail(userId: string, email: Email, fallbackLocale: Locale = DEFAULT_LOCALE): Promise<void> {
+  const { data, error } = await supabase.from("users").select("email, locale").eq("id", userId).single()
+  if (error) throw error
+
+  const user = data as Pick<User, "email" | "locale">
+  const rendered = renderEmail(email, user.locale ?? fallbackLocale, profileUrl())
+  await getMailer().send({ to: user.email, ...rendered, replyTo: replyTo(email) })
+}
+
+export async function notify(userId: string, email: Email, fallbackLocale?: Locale): Promise<void> {
+  try {
+    await sendEmail(userId, email, fallbackLocale)
+  } catch (error) {
+    console.error(`Could not send the ${email.template} email to user ${userId}`, error)
+  }
+}
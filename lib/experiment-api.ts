@@ -0,0 +1,87 @@
+// Experiment analytics - per-arm outcomes and funnels for the results dashboard
+import { z } from "zod"
+import { downsellDiscountSchema, flowStepSchema } from "@/lib/cancellation-api"
+
+export const experimentIdSchema = z.string().uuid()
+
+export const experimentSummarySchema = z.object({
+  id: experimentIdSchema,
+  name: z.string(),
+  starts_at: z.string(),
+  ends_at: z.string().nullable(),
+  running: z.boolean(),
+})
+
+// A count of sessions with an outcome, as a share of the arm's sessions with its 95% interval
+export const outcomeRateSchema = z.object({
+  count: z.number().int(),
+  rate: z.number(),
+  ci_low: z.number(),
+  ci_high: z.number(),
+})
+
+// Completed-cancellation rate of an arm compared with the first (control) arm
+export const controlComparisonSchema = z.object({
+  difference: z.number(),
+  z: z.number(),
+  p_value: z.number(),
+  significant: z.boolean(),
+})
+
+export const armResultSchema = z.object({
+  key: z.string(),
+  weight: z.number(),
+  offer: downsellDiscountSchema.nullable(),
+  sessions: z.number().int(),
+  in_progress: z.number().int(),
+  accepted: outcomeRateSchema,
+  cancelled: outcomeRateSchema,
+  reactivated: z.number().int(), // Cancelled sessions later undone; still counted as cancelled
+  abandoned: outcomeRateSchema,
+  vs_control: controlComparisonSchema.nullable(),
+})
+
+// Sessions that reached a step and what they did there, from the flow's analytics events
+export const funnelStepSchema = z.object({
+  step: flowStepSchema,
+  viewed: z.number().int(),
+  completed: z.number().int(),
+  back: z.number().int(),
+  abandoned: z.number().int(),
+  offer_impressions: z.number().int(),
+})
+
+export const armFunnelSchema = z.object({
+  key: z.string(),
+  sessions: z.number().int(), // Sessions with at least one step viewed
+  steps: z.array(funnelStepSchema),
+})
+
+// GET /api/admin/experiments
+export const experimentsResponseSchema = z.object({
+  success: z.literal(true),
+  experiments: z.array(experimentSummarySchema),
+})
+
+// GET /api/admin/experiments/:id/results
+export const experimentResultsResponseSchema = z.object({
+  success: z.literal(true),
+  experiment: experimentSummarySchema,
+  arms: z.array(armResultSchema),
+})
+
+// GET /api/admin/experiments/:id/funnel
+export const experimentFunnelResponseSchema = z.object({
+  success: z.literal(true),
+  experiment: experimentSummarySchema,
+  arms: z.array(armFunnelSchema),
+})
+
+export type ExperimentSummary = z.infer<typeof experimentSummarySchema>
+export type OutcomeRate = z.infer<typeof outcomeRateSchema>
+export type ArmResult = z.infer<typeof armResultSchema>
+export type ExperimentsResponse = z.infer<typeof experimentsResponseSchema>
+export type ExperimentResultsResponse = z.infer<typeof experimentResultsResponseSchema>
+export type FunnelStep = z.infer<typeof funnelStepSchema>
+export type ArmFunnel = z.infer<typeof armFunnelSchema>
+export type ExperimentFunnelResponse = z.infer<typeof experimentFunnelResponseSchema>
@@ -0,0 +1,144 @@
+// Experiment analytics - reads cancellations and funnel events back per arm for the results dashboard
+import { supabaseAdmin } from "@/lib/supabase"
+import { ApiError } from "@/lib/api"
+import { callFunction } from "@/lib/db"
+import { getExperiment, isRunning } from "@/lib/experiments"
+import { SESSION_TTL_MS } from "@/lib/cancellations"
+import { twoProportionZTest, wilsonInterval } from "@/lib/stats"
+import { flowStepSchema } from "@/lib/cancellation-api"
+import type { ArmFunnel, ArmResult, ExperimentSummary, FunnelStep, OutcomeRate } from "@/lib/experiment-api"
+import type { AnalyticsEvent, Cancellation, Experiment } from "@/types/database"
+
+const SIGNIFICANCE_LEVEL = 0.05
+
+// Sessions in one status, counted by experiment_outcomes; stale marks open sessions idle past the TTL
+interface OutcomeCount {
+  downsell_variant: string
+  status: Cancellation["status"]
+  stale: boolean
+  sessions: number
+}
+// Sessions with an event, counted by experiment_funnel; step is null for the count across all steps
+interface FunnelCount {
+  downsell_variant: string
+  name: AnalyticsEvent["name"]
+  step: string | null
+  sessions: number
+}
+
+function toSummary(experiment: Experiment): ExperimentSummary {
+  return {
+    id: experiment.id,
+    name: experiment.name,
+    starts_at: experiment.starts_at,
+    ends_at: experiment.ends_at,
+    running: isRunning(experiment),
+  }
+}
+
+function outcomeRate(count: number, sessions: number): OutcomeRate {
+  const { low, high } = wilsonInterval(count, sessions)
+  return { count, rate: sessions ? count / sessions : 0, ci_low: low, ci_high: high }
+}
+
+// Open sessions idle past the TTL count as abandoned even before anything expires them
+function isAbandoned(row: OutcomeCount): boolean {
+  return row.status === "expired" || row.stale
+}
+
+// A reactivation undoes the subscription change, but the user still completed the cancellation flow
+function isCompletedCancellation(row: OutcomeCount): boolean {
+  return row.status === "cancelled" || row.status === "reactivated"
+}
+
+export async function listExperiments(): Promise<ExperimentSummary[]> {
+  const { data, error } = await supabaseAdmin
+    .from("experiments")
+    .select("*")
+    .order("starts_at", { ascending: false })
+
+  if (error) throw error
+  return (data as Experiment[]).map(toSummary)
+}
+
+export async function getExperimentResults(experimentId: string) {
+  const experiment = await getExperiment(experimentId)
+  if (!experiment) throw new ApiError(404, "Experiment not found")
+
+  const rows = await callFunction<OutcomeCount[]>("experiment_outcomes", {
+    p_experiment_id: experimentId,
+    p_stale_before: new Date(Date.now() - SESSION_TTL_MS).toISOString(),
+  })
+
+  const arms = experiment.arms.map((arm) => {
+    const armRows = rows.filter((row) => row.downsell_variant === arm.key)
+    const count = (matches: (row: OutcomeCount) => boolean) =>
+      armRows.filter(matches).reduce((sum, row) => sum + row.sessions, 0)
+    const sessions = count(() => true)
+    const abandoned = count(isAbandoned)
+
+    return {
+      key: arm.key,
+      weight: arm.weight,
+      offer: arm.offer,
+      sessions,
+      in_progress: count((row) => row.status === "in_progress" && !row.stale),
+      accepted: outcomeRate(count((row) => row.status === "offer_accepted"), sessions),
+      cancelled: outcomeRate(count(isCompletedCancellation), sessions),
+      reactivated: count((row) => row.status === "reactivated"),
+      abandoned: outcomeRate(abandoned, sessions),
+      vs_control: null,
+    } satisfies ArmResult
+  })
+
+  // Each treatment arm is tested against the first arm on completed cancellations
+  const [control, ...treatments] = arms
+  const results: ArmResult[] = control ? [control] : []
+  for (const arm of treatments) {
+    const test = twoProportionZTest(control.cancelled.count, control.sessions, arm.cancelled.count, arm.sessions)
+    results.push({
+      ...arm,
+      vs_control: test && {
+        difference: arm.cancelled.rate - control.cancelled.rate,
+        z: test.z,
+        p_value: test.pValue,
+        significant: test.pValue < SIGNIFICANCE_LEVEL,
+      },
+    })
+  }
+
+  return { experiment: toSummary(experiment), arms: results }
+}
+
+// Counts are of distinct sessions, so a step revisited after going back still counts its session once
+function countSessions(rows: FunnelCount[], name: AnalyticsEvent["name"], step: string | null = null): number {
+  return rows.find((row) => row.name === name && row.step === step)?.sessions ?? 0
+}
+
+function armFunnel(key: string, rows: FunnelCount[]): ArmFunnel {
+  // Steps in flow definition order; ones no session reached are left out
+  const steps = flowStepSchema.options
+    .map((step): FunnelStep => ({
+      step,
+      viewed: countSessions(rows, "step_view", step),
+      completed: countSessions(rows, "step_complete", step),
+      back: countSessions(rows, "back", step),
+      abandoned: countSessions(rows, "abandon", step),
+      offer_impressions: countSessions(rows, "offer_impression", step),
+    }))
+    .filter((step) => step.viewed > 0)
+
+  return { key, sessions: countSessions(rows, "step_view"), steps }
+}
+
+export async function getExperimentFunnel(experimentId: string) {
+  const experiment = await getExperiment(experimentId)
+  if (!experiment) throw new ApiError(404, "Experiment not found")
+
+  const rows = await callFunction<FunnelCount[]>("experiment_funnel", { p_experiment_id: experimentId })
+
+  return {
+    experiment: toSummary(experiment),
+    arms: experiment.arms.map((arm) => armFunnel(arm.key, rows.filter((row) => row.downsell_variant === arm.key))),
+  }
+}
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { createFakeSupabase } from "@/lib/testing/fake-supabase"
+import { CONTROL_ARM, assignArm, findExperimentFor, getExperiment } from "@/lib/experiments"
+import type { Experiment, Subscription } from "@/types/database"
+
+const db = vi.hoisted(() => ({ client: null as unknown }))
+vi.mock("@/lib/supabase", () => ({
+  get supabaseAdmin() {
+    return db.client
+  },
+}))
+
+function experiment(arms: unknown, overrides: Partial<Experiment> = {}): Experiment {
+  return {
+    id: "exp-1",
+    name: "downsell-test",
+    arms: arms as Experiment["arms"],
+    eligibility: {},
+    starts_at: "2026-01-01T00:00:00.000Z",
+    ends_at: null,
+    created_at: "2026-01-01T00:00:00.000Z",
+    ...overrides,
+  }
+}
+
+const subscription = { id: "sub-1", monthly_price: 2500, currency: "USD" } as Subscription
+
+describe("assignArm", () => {
+  const split = experiment([
+    { key: "A", weight: 3, offer: null },
+    { key: "B", weight: 1, offer: { type: "percent_off", percentOff: 50 } },
+  ])
+
+  it("gives a user the same arm every time", () => {
+    const first = assignArm(split, "user-42")
+    for (let i = 0; i < 5; i++) expect(assignArm(split, "user-42")).toBe(first)
+  })
+
+  it("splits users in proportion to the arms' weights", () => {
+    const counts = { A: 0, B: 0 }
+    for (let i = 0; i < 4000; i++) counts[assignArm(split, `user-${i}`).key as "A" | "B"]++
+
+    expect(counts.A / 4000).toBeCloseTo(0.75, 1)
+    expect(counts.B / 4000).toBeCloseTo(0.25, 1)
+  })
+
+  it("never picks an arm with no weight", () => {
+    const paused = experiment([
+      { key: "A", weight: 1, offer: null },
+      { key: "B", weight: 0, offer: { type: "percent_off", percentOff: 50 } },
+    ])
+    for (let i = 0; i < 200; i++) expect(assignArm(paused, `user-${i}`).key).toBe("A")
+  })
+
+  it("falls back to the control arm when no arm has weight", () => {
+    expect(assignArm(experiment([{ key: "A", weight: 0, offer: null }]), "user-1")).toBe(CONTROL_ARM)
+  })
+})
+
+describe("experiment config", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  const invalidArms = [
+    { type: "percent_off", percentOff: 150 },
+    { type: "percent_off", percentOff: -10 },
+    { type: "free_months", months: 1.5 },
+    { type: "free_months", months: 0 },
+    { type: "amount_off", amountOff: { amount: -500, currency: "USD" } },
+  ]
+
+  it.each(invalidArms)("ignores an experiment with an arm offering %o", async (offer) => {
+    db.client = createFakeSupabase({ experiments: [experiment([{ key: "B", weight: 1, offer }])] })
+
+    expect(await getExperiment("exp-1")).toBeNull()
+    expect(await findExperimentFor(subscription)).toBeNull()
+  })
+
+  it("uses an experiment whose arms are valid", async () => {
+    db.client = createFakeSupabase({
+      experiments: [experiment([{ key: "B", weight: 1, offer: { type: "free_months", months: 2 } }])],
+    })
+
+    expect((await findExperimentFor(subscription))?.id).toBe("exp-1")
+  })
+})
@@ -0,0 +1,108 @@
+// Retention experiments - which arm a user lands in and what that arm offers
+// Experiments are rows in the experiments table, so new arms or weights need no code or schema change
+import crypto from "crypto"
+import { z } from "zod"
+import { supabaseAdmin } from "@/lib/supabase"
+import { DEFAULT_CURRENCY } from "@/lib/money"
+import { currencySchema } from "@/lib/money-api"
+import { downsellDiscountSchema } from "@/lib/cancellation-api"
+import { canApplyDiscount } from "@/lib/offers"
+import { getMonthlyPrice } from "@/lib/pricing"
+import type { Experiment, ExperimentArm, Subscription } from "@/types/database"
+
+// Used when no experiment is running for a subscription - no downsell, nothing to measure
+export const CONTROL_ARM: ExperimentArm = { key: "control", weight: 1, offer: null }
+
+// arms and eligibility are JSONB edited by hand, so they're checked before anything is priced from them
+const experimentConfigSchema = z.object({
+  arms: z
+    .array(z.object({ key: z.string().min(1), weight: z.number().min(0), offer: downsellDiscountSchema.nullable() }))
+    .min(1),
+  eligibility: z.object({
+    currency: currencySchema.optional(),
+    min_monthly_price: z.number().int().min(0).optional(),
+    max_monthly_price: z.number().int().min(0).optional(),
+    monthly_prices: z.array(z.number().int().min(0)).optional(),
+  }),
+})
+
+// An experiment with invalid config is left out, so its users get the control arm and no offer
+function parseExperiment(row: Experiment): Experiment | null {
+  const config = experimentConfigSchema.safeParse(row)
+  if (!config.success) {
+    console.error(`Experiment ${row.name} has invalid arms or eligibility and is ignored`, config.error.issues)
+    return null
+  }
+  return { ...row, ...config.data }
+}
+
+export function isRunning(experiment: Experiment, now = new Date()): boolean {
+  if (new Date(experiment.starts_at) > now) return false
+  return !experiment.ends_at || new Date(experiment.ends_at) > now
+}
+
+// Price rules are written in one currency (USD unless the experiment says), so other currencies never match
+export function isEligible(experiment: Experiment, subscription: Subscription): boolean {
+  const { min_monthly_price, max_monthly_price, monthly_prices } = experiment.eligibility
+  const hasPriceRules = min_monthly_price !== undefined || max_monthly_price !== undefined || monthly_prices !== undefined
+  const currency = experiment.eligibility.currency ?? (hasPriceRules ? DEFAULT_CURRENCY : null)
+  const price = subscription.monthly_price
+
+  if (currency && subscription.currency !== currency) return false
+  if (!experiment.arms.every((arm) => canApplyDiscount(getMonthlyPrice(subscription), arm.offer))) return false
+  if (min_monthly_price !== undefined && price < min_monthly_price) return false
+  if (max_monthly_price !== undefined && price > max_monthly_price) return false
+  if (monthly_prices && !monthly_prices.includes(price)) return false
+  return true
+}
+
+// Hashes user + experiment into [0, 1) so a user always gets the same arm for a given
+// experiment, while different experiments split users independently
+function bucket(experimentName: string, userId: string): number {
+  const hash = crypto.createHash("sha256").update(`${experimentName}:${userId}`).digest()
+  return hash.readUInt32BE(0) / 0x100000000
+}
+
+export function assignArm(experiment: Experiment, userId: string): ExperimentArm {
+  const arms = experiment.arms.filter((arm) => arm.weight > 0)
+  const totalWeight = arms.reduce((sum, arm) => sum + arm.weight, 0)
+  if (totalWeight === 0) return CONTROL_ARM
+
+  let point = bucket(experiment.name, userId) * totalWeight
+  for (const arm of arms) {
+    if (point < arm.weight) return arm
+    point -= arm.weight
+  }
+  return arms[arms.length - 1]
+}
+
+export function findArm(experiment: Experiment | null, key: string): ExperimentArm {
+  return experiment?.arms.find((arm) => arm.key === key) ?? CONTROL_ARM
+}
+
+export async function getExperiment(experimentId: string | null): Promise<Experiment | null> {
+  if (!experimentId) return null
+
+  const { data, error } = await supabaseAdmin
+    .from("experiments")
+    .select("*")
+    .eq("id", experimentId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data && parseExperiment(data)
+}
+
+// Oldest running experiment the subscription qualifies for; experiments don't overlap per user
+export async function findExperimentFor(subscription: Subscription): Promise<Experiment | null> {
+  const { data, error } = await supabaseAdmin
+    .from("experiments")
+    .select("*")
+    .order("starts_at", { ascending: true })
+
+  if (error) throw error
+
+  return (data as Experiment[]).map(parseExperiment).find((experiment) =>
+    experiment !== null && isRunning(experiment) && isEligible(experiment, subscription)
+  ) ?? null
+}
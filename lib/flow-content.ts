@@ -0,0 +1,109 @@
+// Flow content - the copy and answer options of the cancellation flow, with the built-in defaults
+// Admins publish edited versions (lib/content.ts); each cancellation keeps the version it started with.
+// Pure so the flow views, the admin preview and the API all read content the same way.
+import { fillMessage, type Locale } from "@/lib/i18n"
+import { formatMoney } from "@/lib/money"
+import { MESSAGES, type FlowMessageKey } from "@/lib/messages"
+import { isVisaCode } from "@/lib/visas"
+import type { CancellationReasonOption, FlowContent, ReasonFollowUp } from "@/lib/content-api"
+import type { StepAnswers } from "@/lib/cancellation-api"
+import type { DownsellDiscount } from "@/lib/offers"
+
+export type CopyKey = FlowMessageKey
+
+export const DEFAULT_FLOW_CONTENT: FlowContent = {
+  options: {
+    role_options: ["0", "1-5", "6-20", "20+"],
+    interview_options: ["0", "1-2", "3-5", "5+"],
+    reasons: [
+      {
+        label: "Too expensive",
+        follow_up: "retention-price",
+        translations: { es: "Demasiado caro", pt: "Muito caro" },
+      },
+      {
+        label: "Platform not helpful",
+        follow_up: "retention-platform",
+        translations: { es: "La plataforma no me resulta útil", pt: "A plataforma não ajuda" },
+      },
+      {
+        label: "Not enough relevant jobs",
+        follow_up: "retention-jobs",
+        translations: { es: "No hay suficientes ofertas relevantes", pt: "Poucas vagas relevantes" },
+      },
+      {
+        label: "Decided not to move",
+        follow_up: "retention-move",
+        translations: { es: "Decidí no mudarme", pt: "Decidi não me mudar" },
+      },
+      {
+        label: "Other",
+        follow_up: "retention-other",
+        translations: { es: "Otro", pt: "Outro" },
+      },
+    ],
+    min_feedback_length: 25,
+  },
+  // Nothing overridden - all copy comes from the catalogs
+  copy: {},
+}
+
+// A version's copy for the locale where it has some, otherwise the catalog's; placeholders in braces are filled in
+export function getCopy(
+  content: FlowContent,
+  locale: Locale,
+  key: CopyKey,
+  values?: Record<string, string | number>,
+): string {
+  return fillMessage(content.copy[locale]?.[key] ?? MESSAGES[locale].flow[key], values)
+}
+
+// Reasons are stored by their label; users see it in their language where a translation exists
+export function reasonLabel(reason: CancellationReasonOption, locale: Locale): string {
+  return reason.translations[locale] ?? reason.label
+}
+
+// An offer's discount in the user's language, e.g. "50% off" or "2 months free"
+export function describeOffer(content: FlowContent, locale: Locale, discount: DownsellDiscount): string {
+  switch (discount.type) {
+    case "percent_off":
+      return getCopy(content, locale, "discount.percent-off", { percent: discount.percentOff })
+    case "amount_off":
+      return getCopy(content, locale, "discount.amount-off", { amount: formatMoney(discount.amountOff, locale) })
+    case "free_months":
+      return discount.months === 1
+        ? getCopy(content, locale, "discount.free-month")
+        : getCopy(content, locale, "discount.free-months", { months: discount.months })
+  }
+}
+
+export function reasonFollowUp(content: FlowContent, reason: string | null): ReasonFollowUp | null {
+  return content.options.reasons.find((r) => r.label === reason)?.follow_up ?? null
+}
+
+// Answers are checked against the options and minimum length of the content the session was shown
+export function validateAnswers(answers: StepAnswers, content: FlowContent): string | null {
+  const { role_options, interview_options, reasons, min_feedback_length } = content.options
+  const tooShort = (text: string) => text.trim().length < min_feedback_length
+
+  switch (answers.step) {
+    case "survey":
+    case "retention-survey":
+      if (!role_options.includes(answers.roles_applied)) return "roles_applied: Invalid option"
+      if (!role_options.includes(answers.companies_emailed)) return "companies_emailed: Invalid option"
+      if (!interview_options.includes(answers.companies_interviewed)) return "companies_interviewed: Invalid option"
+      return null
+    case "visa":
+      return isVisaCode(answers.visa_code) ? null : "visa_code: Invalid option"
+    case "retention-reason":
+      return reasons.some((r) => r.label === answers.reason) ? null : "reason: Invalid option"
+    case "feedback":
+      return tooShort(answers.feedback) ? `feedback: Must be at least ${min_feedback_length} characters` : null
+    case "retention-feedback":
+      return tooShort(answers.reason_feedback)
+        ? `reason_feedback: Must be at least ${min_feedback_length} characters`
+        : null
+    default:
+      return null
+  }
+}
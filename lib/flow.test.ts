@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_FLOW_CONTENT } from "@/lib/flow-content"
+import { FLOW, INITIAL_FLOW_STATE, confirmsCancellation, isTerminal, type FlowContext, type FlowState } from "@/lib/flow"
+import type { FlowContent } from "@/lib/content-api"
+
+const content: FlowContent = {
+  ...DEFAULT_FLOW_CONTENT,
+  options: {
+    ...DEFAULT_FLOW_CONTENT.options,
+    reasons: [
+      ...DEFAULT_FLOW_CONTENT.options.reasons,
+      { label: "Found a cheaper service", follow_up: null, translations: {} },
+    ],
+  },
+}
+
+const context: FlowContext = { hasOffer: false, content, currency: "USD" }
+
+function atReason(reason: string): FlowState {
+  return {
+    ...INITIAL_FLOW_STATE,
+    step: "retention-reason",
+    hasJob: false,
+    retentionData: { ...INITIAL_FLOW_STATE.retentionData, cancellationReason: reason },
+  }
+}
+
+describe("retention-reason", () => {
+  it("confirms the cancellation when the reason has no follow-up", () => {
+    const state = atReason("Found a cheaper service")
+
+    const target = FLOW["retention-reason"].next!(state, context)
+    expect(target).toBe("retention-final")
+    expect(isTerminal(target)).toBe(true)
+    expect(confirmsCancellation(state, context)).toBe(true)
+  })
+
+  it("leaves confirming to the follow-up step when there is one", () => {
+    const state = atReason("Too expensive")
+
+    expect(FLOW["retention-reason"].next!(state, context)).toBe("retention-price")
+    expect(confirmsCancellation(state, context)).toBe(false)
+    expect(confirmsCancellation({ ...state, step: "retention-price" }, context)).toBe(true)
+  })
+})
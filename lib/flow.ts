@@ -0,0 +1,240 @@
+// Cancellation flow definition - the steps of the flow as a typed graph, rendered by components/cancellation-flow.tsx
+// Each step declares when it may be left, what it records, where it goes next and how far along it puts the user.
+// Pure data and functions so it can be used on the client and checked on the server.
+import { reasonFollowUp } from "@/lib/flow-content"
+import { fromMajor, type Currency } from "@/lib/money"
+import type { FlowProgress, FlowStep, StepAnswers } from "@/lib/cancellation-api"
+import type { FlowContent } from "@/lib/content-api"
+
+export type FlowState = FlowProgress
+
+// What the engine knows besides the user's answers
+export interface FlowContext {
+  hasOffer: boolean
+  content: FlowContent
+  currency: Currency // The subscription's, which prices are answered in
+}
+
+export interface StepDefinition {
+  // Share of the flow this step represents, for the progress bar; 0 for screens that only branch or confirm
+  weight: number
+  // The step can be left once this holds; steps without it can always be left
+  isValid?: (state: FlowState, context: FlowContext) => boolean
+  // Answers saved when leaving the step
+  answers?: (state: FlowState, context: FlowContext) => StepAnswers
+  // Where the step leads; omitted on terminal steps
+  next?: (state: FlowState, context: FlowContext) => FlowStep
+  // Leaving the step confirms the cancellation once its answers are saved; a function when it depends on the answers
+  confirms?: boolean | ((state: FlowState, context: FlowContext) => boolean)
+  // Leaving the step hands the user to the visa team's queue, after the confirmation
+  visaSupport?: boolean
+  // Whether the back button is offered here (default true when there's history)
+  canGoBack?: boolean
+  // Outcome screens - the session is finished and nothing is saved or navigated from here
+  terminal?: boolean
+  // The arm's downsell offer is on screen here, when it has one; it's offered once per session
+  showsOffer?: boolean
+}
+
+export const FIRST_STEP: FlowStep = "job-question"
+
+// Where a downsell acceptance leads, from any step that offers it
+export const OFFER_ACCEPTED_STEP: FlowStep = "retention-accepted"
+
+// How the flow ended when it closes on an outcome screen; the page behind it reloads the subscription
+export type FlowOutcome = "cancelled" | "offer_accepted"
+
+function parseMaxPrice(text: string): number | null {
+  const value = Number(text.trim())
+  return text.trim() && Number.isFinite(value) && value >= 0 ? value : null
+}
+
+const hasMinLength = (text: string, { content }: FlowContext) =>
+  text.trim().length >= content.options.min_feedback_length
+
+// A catalog visa, or "other" with the visa typed in
+const hasVisa = (state: FlowState) => state.visaCode !== null && !!state.visaType.trim()
+
+// Shared by the four reason follow-ups, which all ask for free text
+const reasonFeedbackStep: StepDefinition = {
+  weight: 1,
+  isValid: (state, context) => hasMinLength(state.retentionData.reasonFeedback, context),
+  answers: (state) => ({ step: "retention-feedback", reason_feedback: state.retentionData.reasonFeedback }),
+  next: () => "retention-final",
+  confirms: true,
+}
+
+export const FLOW: Record<FlowStep, StepDefinition> = {
+  "job-question": {
+    weight: 1,
+    isValid: (state) => state.hasJob !== null,
+    answers: (state) => ({ step: "job-question", has_job: state.hasJob === true }),
+    // Sessions without an offer (a control arm, or the eligibility rules blocked it) go straight to the survey
+    next: (state, { hasOffer }) => (state.hasJob ? "survey" : hasOffer ? "retention-offer" : "retention-survey"),
+  },
+
+  // Found a job
+  survey: {
+    weight: 1,
+    isValid: ({ surveyData }) =>
+      surveyData.foundJobWithMM !== null &&
+      !!surveyData.rolesApplied &&
+      !!surveyData.companiesEmailed &&
+      !!surveyData.companiesInterviewed,
+    answers: ({ surveyData }) => ({
+      step: "survey",
+      found_job_with_mm: surveyData.foundJobWithMM === true,
+      roles_applied: surveyData.rolesApplied!,
+      companies_emailed: surveyData.companiesEmailed!,
+      companies_interviewed: surveyData.companiesInterviewed!,
+    }),
+    next: () => "feedback",
+  },
+  feedback: {
+    weight: 1,
+    isValid: (state, context) => hasMinLength(state.feedback, context),
+    answers: (state) => ({ step: "feedback", feedback: state.feedback }),
+    next: () => "congratulations",
+  },
+  congratulations: {
+    weight: 0,
+    isValid: (state) => state.hasLawyer !== null,
+    next: () => "visa-support",
+  },
+  "visa-support": {
+    weight: 0,
+    isValid: (state) => state.hasLawyer !== null,
+    next: (state) => (state.hasLawyer ? "visa-yes" : "visa-no"),
+  },
+  "visa-yes": {
+    weight: 1,
+    isValid: hasVisa,
+    answers: (state) => ({ step: "visa", has_lawyer: true, visa_code: state.visaCode!, visa_type: state.visaType }),
+    next: () => "success",
+    confirms: true,
+  },
+  "visa-no": {
+    weight: 1,
+    isValid: hasVisa,
+    answers: (state) => ({ step: "visa", has_lawyer: false, visa_code: state.visaCode!, visa_type: state.visaType }),
+    next: () => "success-alt",
+    confirms: true,
+    // success-alt promises the visa team will reach out
+    visaSupport: true,
+  },
+  success: { weight: 0, terminal: true },
+  "success-alt": { weight: 0, terminal: true },
+
+  // Still looking
+  "retention-offer": {
+    weight: 0,
+    next: () => "retention-survey",
+    canGoBack: false,
+    showsOffer: true,
+  },
+  "retention-accepted": { weight: 0, terminal: true },
+  "retention-survey": {
+    weight: 1,
+    isValid: ({ retentionData }) =>
+      !!retentionData.rolesApplied && !!retentionData.companiesEmailed && !!retentionData.companiesInterviewed,
+    answers: ({ retentionData }) => ({
+      step: "retention-survey",
+      roles_applied: retentionData.rolesApplied!,
+      companies_emailed: retentionData.companiesEmailed!,
+      companies_interviewed: retentionData.companiesInterviewed!,
+    }),
+    next: () => "retention-reason",
+  },
+  "retention-reason": {
+    weight: 1,
+    isValid: (state) => state.retentionData.cancellationReason !== null,
+    answers: (state) => ({ step: "retention-reason", reason: state.retentionData.cancellationReason! }),
+    // Each reason's follow-up question is part of the flow content
+    next: (state, { content }) => reasonFollowUp(content, state.retentionData.cancellationReason) ?? "retention-final",
+    // A reason without a follow-up ends the flow here
+    confirms: (state, { content }) => reasonFollowUp(content, state.retentionData.cancellationReason) === null,
+  },
+  "retention-price": {
+    weight: 1,
+    isValid: (state) => parseMaxPrice(state.retentionData.maxPrice) !== null,
+    // Typed in whole units of the subscription's currency, saved in its minor units
+    answers: (state, { currency }) => ({
+      step: "retention-price",
+      max_price: fromMajor(parseMaxPrice(state.retentionData.maxPrice)!, currency),
+    }),
+    next: () => "retention-final",
+    confirms: true,
+  },
+  "retention-platform": reasonFeedbackStep,
+  "retention-jobs": reasonFeedbackStep,
+  "retention-move": reasonFeedbackStep,
+  "retention-other": reasonFeedbackStep,
+  "retention-final": { weight: 0, terminal: true },
+}
+
+export const INITIAL_FLOW_STATE: FlowState = {
+  step: FIRST_STEP,
+  hasJob: null,
+  surveyData: {
+    foundJobWithMM: null,
+    rolesApplied: null,
+    companiesEmailed: null,
+    companiesInterviewed: null,
+  },
+  feedback: "",
+  hasLawyer: null,
+  visaType: "",
+  visaCode: null,
+  history: [],
+  retentionData: {
+    rolesApplied: null,
+    companiesEmailed: null,
+    companiesInterviewed: null,
+    cancellationReason: null,
+    maxPrice: "",
+    reasonFeedback: "",
+  },
+}
+
+export function isTerminal(step: FlowStep): boolean {
+  return FLOW[step].terminal === true
+}
+
+export function confirmsCancellation(state: FlowState, context: FlowContext): boolean {
+  const { confirms } = FLOW[state.step]
+  return typeof confirms === "function" ? confirms(state, context) : confirms === true
+}
+
+export function canGoBack(state: FlowState): boolean {
+  const step = FLOW[state.step]
+  return state.history.length > 0 && !step.terminal && step.canGoBack !== false
+}
+
+export function goTo(state: FlowState, step: FlowStep): FlowState {
+  return { ...state, step, history: [...state.history, state.step] }
+}
+
+export function goBack(state: FlowState): FlowState {
+  if (!canGoBack(state)) return state
+  return { ...state, step: state.history[state.history.length - 1], history: state.history.slice(0, -1) }
+}
+
+// Steps still ahead if the user keeps their current answers, so branches they haven't reached count too
+function remainingPath(state: FlowState, context: FlowContext): FlowStep[] {
+  const path: FlowStep[] = []
+  let step = state.step
+  while (FLOW[step].next && path.length < Object.keys(FLOW).length) {
+    step = FLOW[step].next!({ ...state, step }, context)
+    path.push(step)
+  }
+  return path
+}
+
+// Fraction of the flow completed, from the weights of the steps passed and the ones still ahead
+export function flowProgress(state: FlowState, context: FlowContext): number {
+  if (isTerminal(state.step)) return 1
+  const weigh = (steps: FlowStep[]) => steps.reduce((sum, step) => sum + FLOW[step].weight, 0)
+  const done = weigh(state.history)
+  const total = done + weigh([state.step, ...remainingPath(state, context)])
+  return total ? done / total : 0
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest"
+import { fillMessage, matchLocale, parseAcceptLanguage, resolveLocale } from "@/lib/i18n"
+
+describe("parseAcceptLanguage", () => {
+  it("orders tags by quality, keeping header order for ties", () => {
+    expect(parseAcceptLanguage("en;q=0.5, pt-BR, es;q=0.9, pt")).toEqual(["pt-BR", "pt", "es", "en"])
+  })
+
+  it("drops wildcards, refused languages and empty parts", () => {
+    expect(parseAcceptLanguage("*, fr;q=0, , es;q=0.3")).toEqual(["es"])
+  })
+
+  it("reads a missing header as no preference", () => {
+    expect(parseAcceptLanguage(null)).toEqual([])
+    expect(parseAcceptLanguage("")).toEqual([])
+  })
+})
+
+describe("matchLocale", () => {
+  it("picks the first supported language, ignoring region and case", () => {
+    expect(matchLocale(["fr-FR", "PT-br", "es"])).toBe("pt")
+  })
+
+  it("falls back to English when nothing is supported", () => {
+    expect(matchLocale(["fr", "de"])).toBe("en")
+    expect(matchLocale([])).toBe("en")
+  })
+})
+
+describe("resolveLocale", () => {
+  it("prefers the language the user picked over the browser's", () => {
+    expect(resolveLocale("es", "pt-BR,pt;q=0.9")).toBe("es")
+    expect(resolveLocale(null, "pt-BR,pt;q=0.9")).toBe("pt")
+  })
+})
+
+describe("fillMessage", () => {
+  it("fills known placeholders and leaves unknown ones as written", () => {
+    expect(fillMessage("{days} days until {date}", { days: 3 })).toBe("3 days until {date}")
+  })
+})
@@ -0,0 +1,64 @@
+// Locales, locale detection and locale-aware formatting
+// Pure so server pages, client components and the API share one idea of the user's language.
+// Message catalogs live in lib/messages; the flow's copy goes through its content version (lib/flow-content.ts).
+// Prices are formatted with their currency in lib/money.ts.
+
+export const LOCALES = ["en", "es", "pt"] as const
+export type Locale = (typeof LOCALES)[number]
+
+export const DEFAULT_LOCALE: Locale = "en"
+
+// Each language named in itself, for the language picker
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+  pt: "Português",
+}
+
+export function isLocale(value: string): value is Locale {
+  return (LOCALES as readonly string[]).includes(value)
+}
+
+// Language tags from an Accept-Language header, most preferred first, e.g. "pt-BR,pt;q=0.9,en;q=0.8"
+export function parseAcceptLanguage(header: string | null): string[] {
+  if (!header) return []
+  return header
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";")
+      const q = params.find((p) => p.trim().startsWith("q="))
+      return { tag: tag.trim(), q: q ? Number(q.trim().slice(2)) : 1 }
+    })
+    .filter(({ tag, q }) => tag && tag !== "*" && q > 0)
+    .sort((a, b) => b.q - a.q)
+    .map(({ tag }) => tag)
+}
+
+// First supported language among the preferred ones, matching on the language alone ("pt-BR" is "pt")
+export function matchLocale(preferred: readonly string[]): Locale {
+  for (const tag of preferred) {
+    const language = tag.toLowerCase().split("-")[0]
+    if (isLocale(language)) return language
+  }
+  return DEFAULT_LOCALE
+}
+
+// A language the user picked wins over what their browser asks for
+export function resolveLocale(override: Locale | null, acceptLanguage: string | null): Locale {
+  return override ?? matchLocale(parseAcceptLanguage(acceptLanguage))
+}
+
+// Fills {placeholders} in a message; unknown ones are left as written
+export function fillMessage(template: string, values: Record<string, string | number> = {}): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? String(values[name]) : match))
+}
+
+// Billing dates as shown in the UI, e.g. "March 14" or "14 de marzo"
+export function formatDate(date: string | Date, locale: Locale = DEFAULT_LOCALE): string {
+  return new Date(date).toLocaleDateString(locale, { month: "long", day: "numeric" })
+}
+
+// With the year, for documents kept for later such as receipts, e.g. "March 14, 2026" or "14 de marzo de 2026"
+export function formatLongDate(date: string | Date, locale: Locale = DEFAULT_LOCALE): string {
+  return new Date(date).toLocaleDateString(locale, { year: "numeric", month: "long", day: "numeric" })
+}
@@ -0,0 +1,123 @@
+import crypto from "crypto"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { NextResponse } from "next/server"
+import { createFakeSupabase } from "@/lib/testing/fake-supabase"
+import { ApiError } from "@/lib/api"
+import { IDEMPOTENCY_CLAIM_LEASE_MS, IDEMPOTENCY_KEY_HEADER, idempotent } from "@/lib/idempotency"
+
+const db = vi.hoisted(() => ({ client: null as unknown }))
+vi.mock("@/lib/supabase", () => ({
+  get supabaseAdmin() {
+    return db.client
+  },
+}))
+
+const USER_ID = "user-1"
+const NOW = new Date("2026-03-01T12:00:00.000Z")
+
+function post(body: unknown, key = "key-1") {
+  return new Request("http://localhost/api/cancellations/c1/confirm", {
+    method: "POST",
+    headers: { [IDEMPOTENCY_KEY_HEADER]: key },
+    body: JSON.stringify(body),
+  })
+}
+
+// The row a request writes when it takes the key for post({})
+function claimedAt(at: Date) {
+  return {
+    user_id: USER_ID,
+    key: "key-1",
+    request_hash: crypto.createHash("sha256").update("POST /api/cancellations/c1/confirm\n{}").digest("hex"),
+    status_code: null,
+    response: null,
+    claimed_at: at.toISOString(),
+  }
+}
+
+describe("idempotent", () => {
+  let fake: ReturnType<typeof createFakeSupabase>
+  let calls: number
+  const handler = async () => {
+    calls++
+    return NextResponse.json({ success: true, call: calls }, { status: 201 })
+  }
+
+  beforeEach(() => {
+    fake = createFakeSupabase()
+    db.client = fake
+    calls = 0
+  })
+
+  it("replays the stored response to a retry instead of running the handler again", async () => {
+    const first = await idempotent(post({}), USER_ID, handler, NOW)
+    const retry = await idempotent(post({}), USER_ID, handler, NOW)
+
+    expect(calls).toBe(1)
+    expect(retry.status).toBe(201)
+    expect(retry.headers.get("Idempotent-Replayed")).toBe("true")
+    expect(await retry.json()).toEqual(await first.json())
+  })
+
+  it("runs requests without a key every time", async () => {
+    const request = () => new Request("http://localhost/api/cancellations/c1/confirm", { method: "POST", body: "{}" })
+    await idempotent(request(), USER_ID, handler, NOW)
+    await idempotent(request(), USER_ID, handler, NOW)
+
+    expect(calls).toBe(2)
+  })
+
+  it("refuses a key reused for a different request", async () => {
+    await idempotent(post({ a: 1 }), USER_ID, handler, NOW)
+
+    await expect(idempotent(post({ a: 2 }), USER_ID, handler, NOW)).rejects.toMatchObject({ status: 422 })
+  })
+
+  it("answers 409 request_in_progress while the first request holds the key", async () => {
+    fake.tables.idempotency_keys = [claimedAt(NOW)]
+    const soon = new Date(NOW.getTime() + IDEMPOTENCY_CLAIM_LEASE_MS - 1)
+
+    await expect(idempotent(post({}), USER_ID, handler, soon)).rejects.toMatchObject({
+      status: 409,
+      code: "request_in_progress",
+    })
+    expect(calls).toBe(0)
+  })
+
+  it("lets a retry take over a claim whose lease has run out", async () => {
+    // The first request died holding the key, before it could record a response
+    fake.tables.idempotency_keys = [claimedAt(NOW)]
+    const later = new Date(NOW.getTime() + IDEMPOTENCY_CLAIM_LEASE_MS + 1)
+
+    const response = await idempotent(post({}), USER_ID, handler, later)
+
+    expect(calls).toBe(1)
+    expect(response.status).toBe(201)
+    expect(fake.tables.idempotency_keys).toMatchObject([{ status_code: 201, claimed_at: later.toISOString() }])
+  })
+
+  it("releases the key after a server error so a retry runs the handler", async () => {
+    const failed = await idempotent(post({}), USER_ID, async () => {
+      throw new Error("database unavailable")
+    }, NOW)
+    expect(failed.status).toBe(500)
+    expect(fake.tables.idempotency_keys).toEqual([])
+
+    const retry = await idempotent(post({}), USER_ID, handler, NOW)
+    expect(retry.status).toBe(201)
+    expect(calls).toBe(1)
+  })
+
+  it("stores refusals, so a retry gets the same answer", async () => {
+    const refuse = async () => {
+      calls++
+      throw new ApiError(409, "Cancellation is already cancelled")
+    }
+    await idempotent(post({}), USER_ID, refuse, NOW)
+    const retry = await idempotent(post({}), USER_ID, refuse, NOW)
+
+    expect(calls).toBe(1)
+    expect(retry.status).toBe(409)
+    expect(retry.headers.get("Idempotent-Replayed")).toBe("true")
+  })
+})
@@ -0,0 +1,136 @@
+// Idempotent writes - a request sent again with the same Idempotency-Key gets the first response back
+// instead of being applied twice, so clients can safely retry after a timeout or dropped connection
+import crypto from "crypto"
+import { NextResponse } from "next/server"
+import { supabaseAdmin as supabase } from "@/lib/supabase"
+import { ApiError, errorResponse } from "@/lib/api"
+import { UNIQUE_VIOLATION } from "@/lib/db"
+import { ERROR_CODES } from "@/lib/cancellation-api"
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key"
+
+// Stored responses are pruned after this long by the prune-idempotency-keys job
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000
+
+// How long a request holds its key without recording a response; after that it's taken to have died,
+// and a retry takes the key over and runs the handler itself
+export const IDEMPOTENCY_CLAIM_LEASE_MS = 60 * 1000
+
+interface StoredResponse {
+  request_hash: string
+  status_code: number | null
+  response: unknown
+  claimed_at: string
+}
+
+async function hashRequest(request: Request): Promise<string> {
+  const { pathname } = new URL(request.url)
+  const body = await request.clone().text()
+  return crypto.createHash("sha256").update(`${request.method} ${pathname}\n${body}`).digest("hex")
+}
+
+// Takes the key for this request, or returns the response stored under it by an earlier one.
+// Returns null when this request holds the key and should run the handler.
+async function claim(userId: string, key: string, requestHash: string, now: Date): Promise<NextResponse | null> {
+  const { error: claimError } = await supabase
+    .from("idempotency_keys")
+    .insert({ user_id: userId, key, request_hash: requestHash, claimed_at: now.toISOString() })
+
+  if (!claimError) return null
+  if (claimError.code !== UNIQUE_VIOLATION) throw claimError
+
+  const { data, error } = await supabase
+    .from("idempotency_keys")
+    .select("request_hash, status_code, response, claimed_at")
+    .eq("user_id", userId)
+    .eq("key", key)
+    .single()
+
+  if (error) throw error
+  const stored = data as StoredResponse
+  if (stored.request_hash !== requestHash) {
+    throw new ApiError(422, `${IDEMPOTENCY_KEY_HEADER} was already used for a different request`)
+  }
+  if (stored.status_code !== null) {
+    return NextResponse.json(stored.response, { status: stored.status_code, headers: { "Idempotent-Replayed": "true" } })
+  }
+  if (new Date(stored.claimed_at).getTime() + IDEMPOTENCY_CLAIM_LEASE_MS > now.getTime()) {
+    throw new ApiError(409, "A request with this idempotency key is still being processed", ERROR_CODES.requestInProgress)
+  }
+
+  // Matching the claim we read means only one retry takes a lapsed claim over
+  const { data: taken, error: takeOverError } = await supabase
+    .from("idempotency_keys")
+    .update({ claimed_at: now.toISOString() })
+    .eq("user_id", userId)
+    .eq("key", key)
+    .is("status_code", null)
+    .eq("claimed_at", stored.claimed_at)
+    .select("key")
+
+  if (takeOverError) throw takeOverError
+  if (taken.length === 0) {
+    throw new ApiError(409, "A request with this idempotency key is still being processed", ERROR_CODES.requestInProgress)
+  }
+  return null
+}
+
+// False when the response couldn't be stored, so the caller releases the key instead
+async function record(userId: string, key: string, response: NextResponse): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from("idempotency_keys")
+      .update({ status_code: response.status, response: await response.clone().json() })
+      .eq("user_id", userId)
+      .eq("key", key)
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error(`Could not store the response for idempotency key ${key}`, error)
+    return false
+  }
+}
+
+async function release(userId: string, key: string) {
+  const { error } = await supabase.from("idempotency_keys").delete().eq("user_id", userId).eq("key", key)
+  if (error) console.error(`Could not release idempotency key ${key}`, error)
+}
+
+// Runs the handler once per key. Requests without the header run as usual.
+// Server errors aren't final, and neither is a response that couldn't be stored, so their key is released
+// and a retry runs the handler again. A request that dies holding its key loses it once the lease runs out.
+export async function idempotent(
+  request: Request,
+  userId: string,
+  handler: () => Promise<NextResponse>,
+  now = new Date(),
+): Promise<NextResponse> {
+  const key = request.headers.get(IDEMPOTENCY_KEY_HEADER)
+  if (key === null) return handler()
+  if (!key.trim() || key.length > 255) throw new ApiError(400, `Invalid ${IDEMPOTENCY_KEY_HEADER} header`)
+
+  const replayed = await claim(userId, key, await hashRequest(request), now)
+  if (replayed) return replayed
+
+  let response: NextResponse
+  try {
+    response = await handler()
+  } catch (error) {
+    response = errorResponse(error)
+  }
+
+  if (response.status >= 500 || !(await record(userId, key, response))) await release(userId, key)
+  return response
+}
+
+export async function pruneIdempotencyKeys(now = new Date()): Promise<number> {
+  const { data, error } = await supabase
+    .from("idempotency_keys")
+    .delete()
+    .lt("created_at", new Date(now.getTime() - IDEMPOTENCY_KEY_TTL_MS).toISOString())
+    .select("key")
+
+  if (error) throw error
+  return data.length
+}
@@ -0,0 +1,43 @@
+// Invoices API - the billing history panel's pages and receipt downloads
+import { z } from "zod"
+import { moneySchema } from "@/lib/money-api"
+
+export const invoiceIdSchema = z.string().uuid()
+
+export const invoiceSchema = z.object({
+  id: invoiceIdSchema,
+  subscription_id: z.string().uuid(),
+  provider_invoice_id: z.string(),
+  amount: moneySchema, // After any discount
+  subtotal: moneySchema.nullable(), // Before any discount; null for invoices synced before it was kept
+  status: z.enum(["paid", "open", "void"]),
+  period_start: z.string(),
+  period_end: z.string(),
+  discount_id: z.string().uuid().nullable(),
+  created_at: z.string(),
+})
+
+export const INVOICES_PER_PAGE = 10
+
+// GET /api/invoices?page=1&per_page=10
+export const listInvoicesQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  per_page: z.coerce.number().int().min(1).max(50).default(INVOICES_PER_PAGE),
+})
+
+export const invoicesResponseSchema = z.object({
+  success: z.literal(true),
+  invoices: z.array(invoiceSchema),
+  page: z.number().int(),
+  per_page: z.number().int(),
+  total: z.number().int(),
+})
+
+// GET /api/invoices/:id/receipt returns an HTML document; ?download=1 saves it as a file
+export const receiptQuerySchema = z.object({
+  download: z.enum(["0", "1"]).optional(),
+})
+
+export type InvoiceSummary = z.infer<typeof invoiceSchema>
+export type ListInvoicesQuery = z.infer<typeof listInvoicesQuerySchema>
+export type InvoicesResponse = z.infer<typeof invoicesResponseSchema>
@@ -0,0 +1,105 @@
+// Invoice service - billing history copied from the billing provider, read back for the profile page
+import { supabaseAdmin as supabase } from "@/lib/supabase"
+import { ApiError } from "@/lib/api"
+import { getBillingProvider } from "@/lib/billing"
+import { money } from "@/lib/money"
+import { listDiscounts } from "@/lib/discounts"
+import { isDiscountActive } from "@/lib/pricing"
+import { getOwnedSubscription } from "@/lib/subscriptions"
+import type { InvoiceSummary, ListInvoicesQuery } from "@/lib/invoice-api"
+import type { Invoice, Subscription, SubscriptionDiscount, User } from "@/types/database"
+
+function toInvoiceSummary({ amount, subtotal, currency, ...invoice }: Invoice): InvoiceSummary {
+  return {
+    ...invoice,
+    amount: money(amount, currency),
+    subtotal: subtotal === null ? null : money(subtotal, currency),
+  }
+}
+
+export async function listInvoices(
+  userId: string,
+  { page, per_page }: ListInvoicesQuery,
+): Promise<{ invoices: InvoiceSummary[]; total: number }> {
+  const { data: subscriptions, error: subscriptionError } = await supabase
+    .from("subscriptions")
+    .select("id")
+    .eq("user_id", userId)
+
+  if (subscriptionError) throw subscriptionError
+  if (subscriptions.length === 0) return { invoices: [], total: 0 }
+
+  const from = (page - 1) * per_page
+  const { data, error, count } = await supabase
+    .from("invoices")
+    .select("*", { count: "exact" })
+    .in("subscription_id", subscriptions.map((s: Pick<Subscription, "id">) => s.id))
+    .order("period_start", { ascending: false })
+    .range(from, from + per_page - 1)
+
+  if (error) throw error
+  return { invoices: (data as Invoice[]).map(toInvoiceSummary), total: count ?? 0 }
+}
+
+export interface ReceiptData {
+  invoice: Invoice
+  subscription: Subscription
+  user: Pick<User, "email" | "locale">
+  discount: SubscriptionDiscount | null
+}
+
+// Everything a receipt shows, after checking the invoice belongs to the caller
+export async function getReceiptData(userId: string, invoiceId: string): Promise<ReceiptData> {
+  const { data: invoice, error } = await supabase
+    .from("invoices")
+    .select("*")
+    .eq("id", invoiceId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!invoice) throw new ApiError(404, "Invoice not found")
+
+  const subscription = await getOwnedSubscription(userId, invoice.subscription_id)
+
+  const { data: user, error: userError } = await supabase
+    .from("users")
+    .select("email, locale")
+    .eq("id", userId)
+    .single()
+
+  if (userError) throw userError
+
+  const discounts = invoice.discount_id ? await listDiscounts(subscription.id) : []
+  const discount = discounts.find((d) => d.id === invoice.discount_id) ?? null
+  return { invoice, subscription, user, discount }
+}
+
+// Copies the provider's invoices for a subscription, linking discounted ones to the downsell that priced them
+export async function syncInvoices(subscription: Subscription): Promise<number> {
+  const [providerInvoices, discounts] = await Promise.all([
+    getBillingProvider().listInvoices(subscription),
+    listDiscounts(subscription.id),
+  ])
+  if (providerInvoices.length === 0) return 0
+
+  const rows = providerInvoices.map((invoice) => {
+    const periodStart = new Date(invoice.period_start)
+    const discount = invoice.discounted ? discounts.find((d) => isDiscountActive(d, periodStart)) : undefined
+    return {
+      subscription_id: subscription.id,
+      provider_invoice_id: invoice.id,
+      amount: invoice.amount,
+      subtotal: invoice.subtotal,
+      currency: invoice.currency,
+      status: invoice.status,
+      period_start: invoice.period_start,
+      period_end: invoice.period_end,
+      discount_id: discount?.id ?? null,
+      created_at: invoice.created_at,
+    }
+  })
+
+  const { error } = await supabase.from("invoices").upsert(rows, { onConflict: "provider_invoice_id" })
+  if (error) throw error
+  return rows.length
+}
@@ -0,0 +1,15 @@
+// Moves pending cancellations to cancelled once their billing period has ended
+import { supabaseAdmin } from "@/lib/supabase"
+import type { JobResult } from "@/lib/jobs"
+
+export async function expireSubscriptions(now = new Date()): Promise<JobResult> {
+  const { data, error } = await supabaseAdmin
+    .from("subscriptions")
+    .update({ status: "cancelled", updated_at: now.toISOString() })
+    .eq("status", "pending_cancellation")
+    .lte("current_period_end", now.toISOString())
+    .select("id")
+
+  if (error) throw error
+  return { processed: data.length }
+}
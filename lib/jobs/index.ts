@@ -0,0 +1,26 @@
+// Scheduled job registry - run via POST /api/jobs/:name (see scripts/run-jobs.mjs)
+import { expireSubscriptions } from "@/lib/jobs/expire-subscriptions"
+import { normalizeVisaAnswers } from "@/lib/jobs/normalize-visa-answers"
+import { pruneIdempotencyKeys } from "@/lib/jobs/prune-idempotency-keys"
+import { renewSubscriptions } from "@/lib/jobs/renew-subscriptions"
+import { sendReactivationReminders } from "@/lib/jobs/send-reactivation-reminders"
+import { syncAllInvoices } from "@/lib/jobs/sync-invoices"
+
+export interface JobResult {
+  processed: number
+}
+
+export const JOBS = {
+  "renew-subscriptions": renewSubscriptions,
+  "expire-subscriptions": expireSubscriptions,
+  "sync-invoices": syncAllInvoices,
+  "prune-idempotency-keys": pruneIdempotencyKeys,
+  "send-reactivation-reminders": sendReactivationReminders,
+  "normalize-visa-answers": normalizeVisaAnswers,
+} satisfies Record<string, () => Promise<JobResult>>
+
+export type JobName = keyof typeof JOBS
+
+export function isJobName(name: string): name is JobName {
+  return Object.hasOwn(JOBS, name)
+}
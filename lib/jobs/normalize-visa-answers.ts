@@ -0,0 +1,28 @@
+// Files visa answers saved as free text before the visa catalog under a catalog code, or "other" when none matches
+// Run once after deploying the catalog; answers saved since then already carry a code
+import { supabaseAdmin } from "@/lib/supabase"
+import { normalizeVisaAnswer, OTHER_VISA_CODE } from "@/lib/visas"
+import type { JobResult } from "@/lib/jobs"
+import type { CancellationResponse } from "@/types/database"
+
+export async function normalizeVisaAnswers(): Promise<JobResult> {
+  const { data, error } = await supabaseAdmin
+    .from("cancellation_responses")
+    .select("id, visa_type")
+    .is("visa_code", null)
+    .not("visa_type", "is", null)
+
+  if (error) throw error
+
+  const rows = data as Pick<CancellationResponse, "id" | "visa_type">[]
+  for (const row of rows) {
+    const { error: updateError } = await supabaseAdmin
+      .from("cancellation_responses")
+      .update(normalizeVisaAnswer(OTHER_VISA_CODE, row.visa_type!))
+      .eq("id", row.id)
+      .is("visa_code", null)
+
+    if (updateError) throw updateError
+  }
+  return { processed: rows.length }
+}
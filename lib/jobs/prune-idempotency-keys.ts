@@ -0,0 +1,7 @@
+// Deletes stored idempotent responses once retries of their request are no longer expected
+import { pruneIdempotencyKeys as prune } from "@/lib/idempotency"
+import type { JobResult } from "@/lib/jobs"
+
+export async function pruneIdempotencyKeys(): Promise<JobResult> {
+  return { processed: await prune() }
+}
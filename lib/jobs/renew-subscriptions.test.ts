@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { createFakeSupabase } from "@/lib/testing/fake-supabase"
+import { createFakeProvider } from "@/lib/billing/fake"
+import { renewSubscriptions } from "@/lib/jobs/renew-subscriptions"
+
+const db = vi.hoisted(() => ({ client: null as unknown }))
+vi.mock("@/lib/supabase", () => ({
+  get supabaseAdmin() {
+    return db.client
+  },
+}))
+
+const provider = vi.hoisted(() => ({ current: null as unknown }))
+vi.mock("@/lib/billing", () => ({ getBillingProvider: () => provider.current }))
+
+function subscription(id: string, status: string, periodEnd: string) {
+  return { id, status, current_period_end: periodEnd, created_at: "2025-12-31T00:00:00.000Z" }
+}
+
+describe("renewSubscriptions", () => {
+  let fake: ReturnType<typeof createFakeSupabase>
+
+  beforeEach(() => {
+    fake = createFakeSupabase({
+      subscriptions: [
+        subscription("due", "active", "2026-01-31T00:00:00.000Z"),
+        subscription("later", "active", "2026-05-31T00:00:00.000Z"),
+        subscription("cancelling", "pending_cancellation", "2026-01-31T00:00:00.000Z"),
+      ],
+    })
+    db.client = fake
+    provider.current = createFakeProvider()
+  })
+
+  const periodEnd = (id: string) => fake.tables.subscriptions.find((row) => row.id === id)?.current_period_end
+
+  it("moves a passed period end of an active subscription to the renewed period", async () => {
+    const result = await renewSubscriptions(new Date("2026-03-10T00:00:00.000Z"))
+
+    expect(result).toEqual({ processed: 1 })
+    // Counted from the original end each month, so the 31st comes back after February
+    expect(periodEnd("due")).toBe("2026-03-31T00:00:00.000Z")
+  })
+
+  it("leaves periods that haven't ended and pending cancellations alone", async () => {
+    await renewSubscriptions(new Date("2026-03-10T00:00:00.000Z"))
+
+    expect(periodEnd("later")).toBe("2026-05-31T00:00:00.000Z")
+    expect(periodEnd("cancelling")).toBe("2026-01-31T00:00:00.000Z")
+  })
+
+  it("renews on the day the period ends", async () => {
+    await renewSubscriptions(new Date("2026-01-31T00:00:00.000Z"))
+
+    expect(periodEnd("due")).toBe("2026-02-28T00:00:00.000Z")
+  })
+})
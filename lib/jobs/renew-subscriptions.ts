@@ -0,0 +1,33 @@
+// Moves active subscriptions into the billing period the provider has renewed them to
+import { supabaseAdmin } from "@/lib/supabase"
+import { getBillingProvider } from "@/lib/billing"
+import type { JobResult } from "@/lib/jobs"
+import type { Subscription } from "@/types/database"
+
+export async function renewSubscriptions(now = new Date()): Promise<JobResult> {
+  const { data, error } = await supabaseAdmin
+    .from("subscriptions")
+    .select("*")
+    .eq("status", "active")
+    .lte("current_period_end", now.toISOString())
+
+  if (error) throw error
+
+  let processed = 0
+  for (const subscription of data as Subscription[]) {
+    const periodEnd = await getBillingProvider().currentPeriodEnd(subscription, now)
+    if (new Date(periodEnd) <= now) continue
+
+    // Only while still active, so a cancellation confirmed meanwhile keeps its end date
+    const { data: renewed, error: updateError } = await supabaseAdmin
+      .from("subscriptions")
+      .update({ current_period_end: periodEnd, updated_at: now.toISOString() })
+      .eq("id", subscription.id)
+      .eq("status", "active")
+      .select("id")
+
+    if (updateError) throw updateError
+    processed += renewed.length
+  }
+  return { processed }
+}
@@ -0,0 +1,51 @@
+// Reminds users who cancelled that they can still reactivate, a few days before their paid period ends
+import { supabaseAdmin } from "@/lib/supabase"
+import { sendEmail } from "@/lib/emails"
+import type { JobResult } from "@/lib/jobs"
+import type { Cancellation, Subscription } from "@/types/database"
+
+const REMINDER_LEAD_MS = 3 * 24 * 60 * 60 * 1000
+
+export async function sendReactivationReminders(now = new Date()): Promise<JobResult> {
+  const { data: subscriptions, error } = await supabaseAdmin
+    .from("subscriptions")
+    .select("id, current_period_end")
+    .eq("status", "pending_cancellation")
+    .gt("current_period_end", now.toISOString())
+    .lte("current_period_end", new Date(now.getTime() + REMINDER_LEAD_MS).toISOString())
+
+  if (error) throw error
+  if (subscriptions.length === 0) return { processed: 0 }
+  const rows = subscriptions as Pick<Subscription, "id" | "current_period_end">[]
+  const periodEnds = new Map(rows.map((subscription) => [subscription.id, subscription.current_period_end]))
+
+  const { data: cancellations, error: cancellationsError } = await supabaseAdmin
+    .from("cancellations")
+    .select("*")
+    .eq("status", "cancelled")
+    .is("reminder_sent_at", null)
+    .in("subscription_id", [...periodEnds.keys()])
+
+  if (cancellationsError) throw cancellationsError
+
+  // One failed send doesn't hold up the rest; it's picked up again on the next run
+  let processed = 0
+  for (const cancellation of cancellations as Cancellation[]) {
+    try {
+      const periodEnd = periodEnds.get(cancellation.subscription_id)!
+      await sendEmail(cancellation.user_id, { template: "reactivation-reminder", periodEnd }, cancellation.locale)
+    } catch (error) {
+      console.error(`Could not send the reactivation reminder for cancellation ${cancellation.id}`, error)
+      continue
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from("cancellations")
+      .update({ reminder_sent_at: now.toISOString() })
+      .eq("id", cancellation.id)
+
+    if (updateError) throw updateError
+    processed++
+  }
+  return { processed }
+}
@@ -0,0 +1,16 @@
+// Copies new and updated invoices from the billing provider for every subscription
+import { supabaseAdmin } from "@/lib/supabase"
+import { syncInvoices } from "@/lib/invoices"
+import type { JobResult } from "@/lib/jobs"
+import type { Subscription } from "@/types/database"
+
+export async function syncAllInvoices(): Promise<JobResult> {
+  const { data, error } = await supabaseAdmin.from("subscriptions").select("*")
+  if (error) throw error
+
+  let processed = 0
+  for (const subscription of data as Subscription[]) {
+    processed += await syncInvoices(subscription)
+  }
+  return { processed }
+}
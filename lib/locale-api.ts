@@ -0,0 +1,19 @@
+// The user's language setting
+import { z } from "zod"
+import { LOCALES } from "@/lib/i18n"
+
+export const localeSchema = z.enum(LOCALES)
+
+// PUT /api/locale - null goes back to following the browser's language
+export const updateLocaleRequestSchema = z.object({
+  locale: localeSchema.nullable(),
+})
+
+export const localeResponseSchema = z.object({
+  success: z.literal(true),
+  locale: localeSchema, // The language now in effect
+  override: localeSchema.nullable(),
+})
+
+export type UpdateLocaleRequest = z.infer<typeof updateLocaleRequestSchema>
+export type LocaleResponse = z.infer<typeof localeResponseSchema>
@@ -0,0 +1,17 @@
+// Locale service - the language a request is served in and the user's saved choice
+import { headers } from "next/headers"
+import { supabaseAdmin as supabase } from "@/lib/supabase"
+import { resolveLocale, type Locale } from "@/lib/i18n"
+
+// The user's pick if they made one, otherwise the best match for the browser's Accept-Language
+export async function getRequestLocale(override: Locale | null): Promise<Locale> {
+  return resolveLocale(override, (await headers()).get("accept-language"))
+}
+
+// Saves the user's pick; null goes back to following the browser
+export async function setUserLocale(userId: string, locale: Locale | null): Promise<Locale> {
+  const { error } = await supabase.from("users").update({ locale }).eq("id", userId)
+
+  if (error) throw error
+  return getRequestLocale(locale)
+}
@@ -0,0 +1,38 @@
+// Mail transport registry - how transactional email leaves the app, picked with MAIL_TRANSPORT
+// Templates live in lib/email-templates.ts; transports only deliver what they're given
+import { createOutboxMailer } from "@/lib/mail/outbox"
+import { createSmtpMailer } from "@/lib/mail/smtp"
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  text: string
+  html: string
+  replyTo?: string
+}
+
+export interface Mailer {
+  name: string
+  send(message: EmailMessage): Promise<void>
+}
+
+// Sender for every message, e.g. "Migrate Mate <hello@migratemate.co>"
+export function mailFrom(): string {
+  return process.env.MAIL_FROM ?? "Migrate Mate <no-reply@migratemate.co>"
+}
+
+const MAILERS = {
+  outbox: createOutboxMailer,
+  smtp: createSmtpMailer,
+} satisfies Record<string, () => Mailer>
+
+let mailer: Mailer | null = null
+
+export function getMailer(): Mailer {
+  if (mailer) return mailer
+
+  const name = process.env.MAIL_TRANSPORT ?? "outbox"
+  if (!Object.hasOwn(MAILERS, name)) throw new Error(`Unknown mail transport: ${name}`)
+  mailer = MAILERS[name as keyof typeof MAILERS]()
+  return mailer
+}
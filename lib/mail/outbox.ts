@@ -0,0 +1,44 @@
+// Outbox mail transport for local development - keeps sent messages in memory,
+// or in a JSON file when MAIL_OUTBOX_FILE is set so they can be read without a mail server.
+import { promises as fs } from "fs"
+import { mailFrom, type EmailMessage, type Mailer } from "@/lib/mail"
+
+export interface OutboxEntry extends EmailMessage {
+  from: string
+  sent_at: string
+}
+
+export interface OutboxMailer extends Mailer {
+  // Oldest first
+  messages(): Promise<OutboxEntry[]>
+}
+
+export function createOutboxMailer(): OutboxMailer {
+  const file = process.env.MAIL_OUTBOX_FILE
+  let sent: OutboxEntry[] | null = null
+
+  async function load(): Promise<OutboxEntry[]> {
+    if (sent) return sent
+    if (!file) return (sent = [])
+    try {
+      sent = JSON.parse(await fs.readFile(file, "utf8")) as OutboxEntry[]
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+      sent = []
+    }
+    return sent
+  }
+
+  return {
+    name: "outbox",
+
+    async send(message) {
+      const messages = await load()
+      messages.push({ ...message, from: mailFrom(), sent_at: new Date().toISOString() })
+      if (file) await fs.writeFile(file, JSON.stringify(messages, null, 2))
+      else console.info(`Email to ${message.to}: ${message.subject}`)
+    },
+
+    messages: load,
+  }
+}
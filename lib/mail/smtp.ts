@@ -0,0 +1,201 @@
+// SMTP mail transport - speaks just enough SMTP to hand messages to a relay (SES, Postmark, Mailgun, ...)
+// Configured with SMTP_HOST, SMTP_PORT (default 587), SMTP_USER and SMTP_PASSWORD. Port 465 connects over TLS;
+// other ports upgrade with STARTTLS when the server offers it. Credentials are only sent over TLS unless
+// SMTP_ALLOW_PLAINTEXT_AUTH=true (a relay on localhost, say). One connection per message.
+import crypto from "crypto"
+import net from "net"
+import os from "os"
+import tls from "tls"
+import { mailFrom, type EmailMessage, type Mailer } from "@/lib/mail"
+
+const TIMEOUT_MS = 15_000
+const IMPLICIT_TLS_PORT = 465
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+// The socket timeout only covers an open connection, so connecting has its own; a host that never answers
+// would otherwise hold up the request that sends the email
+function connect(host: string, port: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket =
+      port === IMPLICIT_TLS_PORT ? tls.connect({ host, port, servername: host }) : net.connect({ host, port })
+    const timer = setTimeout(() => socket.destroy(new Error("SMTP connection timed out")), TIMEOUT_MS)
+    socket.once(port === IMPLICIT_TLS_PORT ? "secureConnect" : "connect", () => {
+      clearTimeout(timer)
+      resolve(socket)
+    })
+    socket.once("error", (error) => {
+      clearTimeout(timer)
+      reject(error)
+    })
+  })
+}
+
+// A conversation with the server: each command waits for its (possibly multiline) reply
+function createSession(initial: net.Socket, host: string) {
+  let socket = initial
+  let buffer = ""
+  let lines: string[] = []
+  let failure: Error | null = null
+  const replies: SmtpReply[] = []
+  const waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = []
+
+  function onData(chunk: Buffer) {
+    buffer += chunk.toString("utf8")
+    for (let end = buffer.indexOf("\r\n"); end >= 0; end = buffer.indexOf("\r\n")) {
+      const line = buffer.slice(0, end)
+      buffer = buffer.slice(end + 2)
+      lines.push(line.slice(4))
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line[3] === "-") continue
+      const reply = { code: Number(line.slice(0, 3)), lines }
+      lines = []
+      const next = waiting.shift()
+      if (next) next.resolve(reply)
+      else replies.push(reply)
+    }
+  }
+
+  function onError(error: Error) {
+    failure ??= error
+    for (const next of waiting.splice(0)) next.reject(failure)
+  }
+
+  const onClose = () => onError(new Error("SMTP connection closed"))
+
+  function attach(next: net.Socket) {
+    next.on("data", onData)
+    next.on("error", onError)
+    next.on("close", onClose)
+    next.setTimeout(TIMEOUT_MS, () => next.destroy(new Error("SMTP server timed out")))
+    socket = next
+  }
+
+  function detach() {
+    socket.off("data", onData)
+    socket.off("error", onError)
+    socket.off("close", onClose)
+    socket.setTimeout(0)
+  }
+
+  function read(): Promise<SmtpReply> {
+    const reply = replies.shift()
+    if (reply) return Promise.resolve(reply)
+    if (failure) return Promise.reject(failure)
+    return new Promise((resolve, reject) => waiting.push({ resolve, reject }))
+  }
+
+  async function expect(line: string | null, ...codes: number[]): Promise<SmtpReply> {
+    if (line !== null) socket.write(`${line}\r\n`)
+    const reply = await read()
+    if (!codes.includes(reply.code)) {
+      // Only the verb, so credentials never end up in logs
+      const verb = line?.split(" ")[0] ?? "Connection"
+      throw new Error(`SMTP ${verb} failed: ${reply.code} ${reply.lines.join(" ")}`)
+    }
+    return reply
+  }
+
+  function startTls(): Promise<void> {
+    detach()
+    return new Promise((resolve, reject) => {
+      const secure = tls.connect({ socket, servername: host })
+      secure.once("secureConnect", () => {
+        attach(secure)
+        resolve()
+      })
+      secure.once("error", reject)
+    })
+  }
+
+  attach(initial)
+  return { expect, startTls, close: () => socket.destroy() }
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`
+}
+
+function base64Body(text: string): string {
+  return Buffer.from(text).toString("base64").replace(/.{76}/g, "$&\r\n")
+}
+
+function address(mailbox: string): string {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox
+}
+
+// Addresses go into SMTP commands and headers as-is, so a line break or bracket could smuggle in another one
+function assertAddress(value: string, field: string) {
+  if (/[\r\n<>]/.test(value)) throw new Error(`Invalid ${field} address`)
+}
+
+// Plain text and HTML alternatives, base64 encoded so no line can end the DATA section early
+function buildMessage(from: string, message: EmailMessage): string {
+  const boundary = `mm-${crypto.randomUUID()}`
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    ...(message.replyTo ? [`Reply-To: ${message.replyTo}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${address(from).split("@")[1] ?? "localhost"}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+  ]
+  const part = (type: string, body: string) => [
+    `--${boundary}`,
+    `Content-Type: ${type}; charset=utf-8`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Body(body),
+  ]
+
+  return [...headers, "", ...part("text/plain", message.text), ...part("text/html", message.html), `--${boundary}--`]
+    .join("\r\n")
+}
+
+export function createSmtpMailer(): Mailer {
+  return {
+    name: "smtp",
+
+    async send(message) {
+      const host = process.env.SMTP_HOST
+      if (!host) throw new Error("SMTP_HOST is not set")
+      const port = Number(process.env.SMTP_PORT ?? 587)
+      const user = process.env.SMTP_USER
+      const from = mailFrom()
+      assertAddress(message.to, "recipient")
+      if (message.replyTo) assertAddress(message.replyTo, "reply-to")
+
+      const session = createSession(await connect(host, port), host)
+      try {
+        await session.expect(null, 220)
+        const greeting = await session.expect(`EHLO ${os.hostname()}`, 250)
+        let secure = port === IMPLICIT_TLS_PORT
+        if (!secure && greeting.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+          await session.expect("STARTTLS", 220)
+          await session.startTls()
+          await session.expect(`EHLO ${os.hostname()}`, 250)
+          secure = true
+        }
+        if (user) {
+          if (!secure && process.env.SMTP_ALLOW_PLAINTEXT_AUTH !== "true") {
+            throw new Error("SMTP server did not offer STARTTLS; refusing to send credentials unencrypted")
+          }
+          const credentials = Buffer.from(`\0${user}\0${process.env.SMTP_PASSWORD ?? ""}`).toString("base64")
+          await session.expect(`AUTH PLAIN ${credentials}`, 235)
+        }
+        await session.expect(`MAIL FROM:<${address(from)}>`, 250)
+        await session.expect(`RCPT TO:<${message.to}>`, 250, 251)
+        await session.expect("DATA", 354)
+        await session.expect(`${buildMessage(from, message)}\r\n.`, 250)
+        await session.expect("QUIT", 221)
+      } finally {
+        session.close()
+      }
+    },
+  }
+}
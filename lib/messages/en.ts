@@ -0,0 +1,220 @@
+// English messages - the source catalog; every other locale translates these keys
+// flow is the cancellation flow's built-in copy, which admins can override per version (lib/flow-content.ts)
+
+export const en = {
+  flow: {
+    "header.title": "Subscription Cancellation",
+    "engine.loading": "Loading cancellation flow...",
+    "engine.error": "Error loading cancellation flow:",
+    "engine.close": "Close",
+    "engine.back": "Go back",
+    "engine.image-alt": "City skyline representing career opportunities",
+    "engine.saving": "Saving your answers...",
+    "engine.offline": "You're offline. We'll send your answers as soon as you're back online.",
+    "engine.save-failed": "We couldn't save your answers: {error}",
+    "engine.retry": "Try again",
+
+    "common.yes": "Yes",
+    "common.no": "No",
+    "common.continue": "Continue",
+    "common.complete-cancellation": "Complete cancellation",
+    "common.finish": "Finish",
+    "common.min-characters": "Min {min} characters ({count}/{min})",
+    "common.per-month": "{price}/month",
+    "common.reactivate": "Changed your mind? You can reactivate anytime before your end date.",
+    "common.access-until-end": "You'll still have full access until then. No further charges after that.",
+
+    "job-question.greeting": "Hey mate,",
+    "job-question.title": "Quick one before you go.",
+    "job-question.question": "Have you found a job yet?",
+    "job-question.body":
+      "Whatever your answer, we just want to help you take the next step. With visa support, or by hearing how we can do better.",
+    "job-question.yes": "Yes, I've found a job",
+    "job-question.no": "Not yet - I'm still looking",
+
+    "survey.title": "Congrats on the new role! 🎉",
+    "survey.found-with-mm": "Did you find this job with MigrateMate?*",
+    "survey.roles-applied": "How many roles did you apply for through Migrate Mate?*",
+    "survey.companies-emailed": "How many companies did you email directly?*",
+    "survey.companies-interviewed": "How many different companies did you interview with?*",
+
+    "feedback.title": "What's one thing you wish we could've helped you with?",
+    "feedback.body":
+      "We're always looking to improve, your thoughts can help us make Migrate Mate more useful for others.*",
+    "feedback.placeholder": "Your feedback...",
+
+    "congratulations.title": "You landed the job!",
+    "congratulations.subtitle": "That's what we live for.",
+    "congratulations.body": "Even if it wasn't through Migrate Mate,\nlet us help get your visa sorted.",
+
+    "visa.title": "We helped you land the job, now let's help you secure your visa.",
+    "visa.lawyer-question": "Is your company providing an immigration lawyer to help with your visa?",
+    "visa.partner": "We can connect you with one of our trusted partners.",
+    "visa.type-question-lawyer": "What visa will you be applying for?*",
+    "visa.type-question-no-lawyer": "Which visa would you like to apply for?*",
+    "visa.placeholder": "Select your visa...",
+    "visa.search-placeholder": "Search by name, e.g. H-1B or Blue Card",
+    "visa.no-results": "No visa found.",
+    "visa.other": "Other visa",
+    "visa.other-placeholder": "Enter visa type...",
+
+    "success.title": "All done, your cancellation's been processed.",
+    "success.body": "We're stoked to hear you've landed a job and sorted your visa.",
+    "success.congrats": "Big congrats from the team. 🙌",
+
+    "success-alt.title": "Your cancellation's all sorted, mate, no more charges.",
+    "success-alt.contact-name": "Mihailo Bozic",
+    "success-alt.contact-email": "mihailo@migratemate.co",
+    "success-alt.reach-out": "I'll be reaching out soon to help with the visa side of things.",
+    "success-alt.support": "We've got your back, whether it's questions, paperwork, or just figuring out your options.",
+    "success-alt.period-end": "Your subscription is set to end on {date}.",
+
+    "offer.title": "We built this to help you land the job, this makes it a little easier.",
+    "offer.body": "We've been there and we're here to help you.",
+    "offer.headline": "Here's {offer} until you find a job.",
+    "offer.headline-free-months": "Here's {offer} while you keep looking.",
+    "offer.then": "Then {price}/month",
+    "offer.accept": "Get {offer}",
+    "offer.billing-note": "You won't be charged until your next billing date.",
+    "offer.decline": "No thanks",
+
+    "discount.percent-off": "{percent}% off",
+    "discount.amount-off": "{amount} off",
+    "discount.free-month": "1 month free",
+    "discount.free-months": "{months} months free",
+
+    "accepted.title": "Great choice, mate!",
+    "accepted.subtitle": "You're still on the path to your dream role.",
+    "accepted.together": "Let's make it happen together!",
+    "accepted.days-left": "You've got {days} days left on your current plan.",
+    "accepted.day-left": "You've got 1 day left on your current plan.",
+    "accepted.new-price": "Starting from {date}, your monthly payment will be {price}.",
+    "accepted.free-months": "Starting from {date}, you get {offer}; after that your monthly payment will be {price}.",
+    "accepted.cancel-anytime": "You can cancel anytime before then.",
+    "accepted.button": "Land your dream role",
+
+    "retention-survey.title": "Help us understand how you were using Migrate Mate.",
+    "retention-survey.roles-applied": "How many roles did you apply for through Migrate Mate?",
+    "retention-survey.companies-emailed": "How many companies did you email directly?",
+    "retention-survey.companies-interviewed": "How many different companies did you interview with?",
+
+    "reason.title": "What's the main reason for cancelling?",
+    "reason.body": "Please take a minute to let us know why:",
+    "reason.required": "To help us understand your experience, please select a reason for cancelling*",
+
+    "retention-price.question": "What would be the maximum you would be willing to pay?*",
+
+    "reason-feedback.title": "What's the main reason?",
+    "reason-feedback.required": "Please enter at least {min} characters so we can understand your feedback*",
+    "retention-platform.question": "What can we change to make the platform more helpful?*",
+    "retention-platform.placeholder": "Tell us what would make the platform more helpful...",
+    "retention-jobs.question": "In which way can we make the jobs more relevant?*",
+    "retention-jobs.placeholder": "Tell us how we can make jobs more relevant...",
+    "retention-move.question": "What changed for you to decide to not move?*",
+    "retention-move.placeholder": "Tell us what changed your mind about moving...",
+    "retention-other.question": "What would have helped you the most?*",
+    "retention-other.placeholder": "Tell us what would have helped you the most...",
+
+    "final.title": "Sorry to see you go, mate.",
+    "final.body": "Thanks for being with us, and you're always welcome back.",
+    "final.period-end": "Your subscription is set to end on {date}.",
+    "final.button": "Back to Jobs",
+  },
+
+  profile: {
+    "title": "My Profile",
+    "title-short": "Profile",
+    "sign-in": "Please sign in to manage your subscription.",
+    "back-to-jobs": "Back to jobs",
+    "back-to-jobs-short": "Jobs",
+    "sign-out": "Sign out",
+    "signing-out": "Signing out...",
+
+    "account": "Account Information",
+    "email": "Email",
+    "language": "Language",
+    "language-auto": "Automatic ({language})",
+    "status": "Subscription status",
+    "status-active": "Active",
+    "status-cancelled": "Cancelled",
+    "monthly-price": "Monthly price",
+    "next-payment": "Next payment",
+    "cancelled-title": "Subscription cancelled",
+    "cancelled-body": "Access will continue until your current period ends",
+
+    "discount-upcoming": "{price}/month from {date}",
+    "discount-until": "Discounted until {date}",
+    "discount-until-job": "Discounted until you land a job",
+    "discount": "Discounted",
+
+    "support": "Contact support",
+    "support-title": "Send email to support",
+    "manage": "Manage Subscription",
+    "reactivate": "Reactivate subscription",
+    "reactivating": "Reactivating...",
+    "subscribe": "Subscribe to Migrate Mate",
+    "payment-method-updated": "Your payment method has been updated.",
+    "update-payment-method": "Update payment method",
+    "redirecting": "Redirecting...",
+    "show-billing-history": "View billing history",
+    "hide-billing-history": "Hide billing history",
+    "cancel": "Cancel Migrate Mate",
+
+    "error-reactivate": "Could not reactivate subscription",
+    "error-payment-method": "Could not update payment method",
+    "error-language": "Could not change language",
+
+    "billing.loading": "Loading invoices...",
+    "billing.empty": "No invoices yet.",
+    "billing.paid": "Paid",
+    "billing.open": "Due",
+    "billing.void": "Void",
+    "billing.discounted": "Discounted",
+    "billing.receipt": "Receipt",
+    "billing.download": "Download",
+    "billing.newer": "Newer",
+    "billing.older": "Older",
+    "billing.page": "Page {page} of {count}",
+  },
+
+  // Transactional email (lib/email-templates.ts); not editable per content version
+  email: {
+    "greeting": "Hi there,",
+    "sign-off": "The Migrate Mate team",
+    "manage": "Manage your subscription",
+
+    "cancellation-confirmed.subject": "Your Migrate Mate subscription is cancelled",
+    "cancellation-confirmed.body": "Your cancellation is confirmed and you won't be charged again. You keep full access until {date}.",
+    "cancellation-confirmed.reactivate": "Changed your mind? You can reactivate from your profile any time before then.",
+
+    "downsell-accepted.subject": "Your new Migrate Mate price",
+    "downsell-accepted.body": "Thanks for staying with us! From {date} you'll pay {price}/month instead of {original}.",
+    "downsell-accepted.free-months": "Thanks for staying with us! You won't be charged from {date} until {end}; after that you'll pay {original}/month again.",
+    "downsell-accepted.until-job": "The discount lasts until you land a job.",
+    "downsell-accepted.until": "The discount runs until {date}.",
+
+    "visa-handoff.subject": "Help with your visa",
+    "visa-handoff.body": "You told us you don't have an immigration lawyer for your {visa} visa. I'll be reaching out soon to help with the visa side of things.",
+    "visa-handoff.reply": "In the meantime, just reply to this email with any questions.",
+    "visa-handoff.signature": "Mihailo Bozic, Migrate Mate",
+
+    "reactivation-reminder.subject": "Your Migrate Mate access ends on {date}",
+    "reactivation-reminder.body": "Your subscription ends on {date}. If you'd like to keep your job search going, reactivate before then and nothing changes.",
+    "reactivation-reminder.button": "Reactivate subscription",
+  },
+
+  receipt: {
+    "title": "Receipt",
+    "page-title": "Receipt – {period}",
+    "number": "Receipt number",
+    "date": "Date",
+    "billed-to": "Billed to",
+    "status": "Status",
+    "status.paid": "Paid",
+    "status.open": "Due",
+    "status.void": "Void",
+    "subscription": "Migrate Mate monthly subscription",
+    "discount": "Retention discount",
+    "total": "Total",
+  },
+} as const
@@ -0,0 +1,219 @@
+// Spanish messages
+import type { Messages } from "@/lib/messages"
+
+export const es: Messages = {
+  flow: {
+    "header.title": "Cancelación de la suscripción",
+    "engine.loading": "Cargando el proceso de cancelación...",
+    "engine.error": "Error al cargar el proceso de cancelación:",
+    "engine.close": "Cerrar",
+    "engine.back": "Volver",
+    "engine.image-alt": "Horizonte de una ciudad que representa oportunidades profesionales",
+    "engine.saving": "Guardando tus respuestas...",
+    "engine.offline": "No tienes conexión. Enviaremos tus respuestas en cuanto vuelvas a estar en línea.",
+    "engine.save-failed": "No pudimos guardar tus respuestas: {error}",
+    "engine.retry": "Reintentar",
+
+    "common.yes": "Sí",
+    "common.no": "No",
+    "common.continue": "Continuar",
+    "common.complete-cancellation": "Completar la cancelación",
+    "common.finish": "Finalizar",
+    "common.min-characters": "Mín. {min} caracteres ({count}/{min})",
+    "common.per-month": "{price}/mes",
+    "common.reactivate": "¿Cambiaste de opinión? Puedes reactivarla en cualquier momento antes de la fecha de finalización.",
+    "common.access-until-end": "Seguirás teniendo acceso completo hasta entonces. Después no habrá más cargos.",
+
+    "job-question.greeting": "¡Hola!",
+    "job-question.title": "Una pregunta rápida antes de que te vayas.",
+    "job-question.question": "¿Ya encontraste trabajo?",
+    "job-question.body":
+      "Sea cual sea tu respuesta, queremos ayudarte a dar el siguiente paso. Con apoyo para tu visa, o escuchando cómo podemos mejorar.",
+    "job-question.yes": "Sí, encontré trabajo",
+    "job-question.no": "Todavía no, sigo buscando",
+
+    "survey.title": "¡Felicidades por el nuevo puesto! 🎉",
+    "survey.found-with-mm": "¿Encontraste este trabajo con MigrateMate?*",
+    "survey.roles-applied": "¿A cuántos puestos te postulaste a través de Migrate Mate?*",
+    "survey.companies-emailed": "¿A cuántas empresas escribiste directamente?*",
+    "survey.companies-interviewed": "¿Con cuántas empresas distintas tuviste entrevistas?*",
+
+    "feedback.title": "¿En qué te habría gustado que te ayudáramos?",
+    "feedback.body":
+      "Siempre buscamos mejorar; tu opinión nos ayuda a que Migrate Mate sea más útil para otras personas.*",
+    "feedback.placeholder": "Tus comentarios...",
+
+    "congratulations.title": "¡Conseguiste el trabajo!",
+    "congratulations.subtitle": "Para eso trabajamos.",
+    "congratulations.body": "Aunque no haya sido a través de Migrate Mate,\ndéjanos ayudarte con tu visa.",
+
+    "visa.title": "Te ayudamos a conseguir el trabajo; ahora te ayudamos a conseguir tu visa.",
+    "visa.lawyer-question": "¿Tu empresa te ofrece un abogado de inmigración para tramitar tu visa?",
+    "visa.partner": "Podemos ponerte en contacto con uno de nuestros socios de confianza.",
+    "visa.type-question-lawyer": "¿Qué visa vas a solicitar?*",
+    "visa.type-question-no-lawyer": "¿Qué visa te gustaría solicitar?*",
+    "visa.placeholder": "Selecciona tu visa...",
+    "visa.search-placeholder": "Busca por nombre, p. ej. H-1B o Tarjeta Azul",
+    "visa.no-results": "No se encontró ninguna visa.",
+    "visa.other": "Otra visa",
+    "visa.other-placeholder": "Escribe el tipo de visa...",
+
+    "success.title": "Listo, tu cancelación se ha procesado.",
+    "success.body": "Nos alegra mucho saber que conseguiste trabajo y resolviste tu visa.",
+    "success.congrats": "¡Muchas felicidades de parte de todo el equipo! 🙌",
+
+    "success-alt.title": "Tu cancelación está lista, no habrá más cargos.",
+    "success-alt.contact-name": "Mihailo Bozic",
+    "success-alt.contact-email": "mihailo@migratemate.co",
+    "success-alt.reach-out": "Me pondré en contacto contigo pronto para ayudarte con la visa.",
+    "success-alt.support": "Cuenta con nosotros, ya sea para preguntas, trámites o para ver tus opciones.",
+    "success-alt.period-end": "Tu suscripción terminará el {date}.",
+
+    "offer.title": "Creamos esto para ayudarte a conseguir trabajo; esto te lo pone un poco más fácil.",
+    "offer.body": "Hemos pasado por lo mismo y estamos aquí para ayudarte.",
+    "offer.headline": "Te ofrecemos {offer} hasta que encuentres trabajo.",
+    "offer.headline-free-months": "Te ofrecemos {offer} mientras sigues buscando.",
+    "offer.then": "Después {price}/mes",
+    "offer.accept": "Obtener {offer}",
+    "offer.billing-note": "No se te cobrará hasta tu próxima fecha de facturación.",
+    "offer.decline": "No, gracias",
+
+    "discount.percent-off": "{percent}% de descuento",
+    "discount.amount-off": "{amount} de descuento",
+    "discount.free-month": "1 mes gratis",
+    "discount.free-months": "{months} meses gratis",
+
+    "accepted.title": "¡Buena elección!",
+    "accepted.subtitle": "Sigues en camino hacia el trabajo de tus sueños.",
+    "accepted.together": "¡Hagámoslo realidad juntos!",
+    "accepted.days-left": "Te quedan {days} días en tu plan actual.",
+    "accepted.day-left": "Te queda 1 día en tu plan actual.",
+    "accepted.new-price": "A partir del {date}, tu pago mensual será de {price}.",
+    "accepted.free-months": "A partir del {date} tendrás {offer}; después, tu pago mensual será de {price}.",
+    "accepted.cancel-anytime": "Puedes cancelar en cualquier momento antes de esa fecha.",
+    "accepted.button": "Consigue el trabajo de tus sueños",
+
+    "retention-survey.title": "Ayúdanos a entender cómo usabas Migrate Mate.",
+    "retention-survey.roles-applied": "¿A cuántos puestos te postulaste a través de Migrate Mate?",
+    "retention-survey.companies-emailed": "¿A cuántas empresas escribiste directamente?",
+    "retention-survey.companies-interviewed": "¿Con cuántas empresas distintas tuviste entrevistas?",
+
+    "reason.title": "¿Cuál es el motivo principal de la cancelación?",
+    "reason.body": "Tómate un minuto para contarnos por qué:",
+    "reason.required": "Para entender tu experiencia, selecciona un motivo de cancelación*",
+
+    "retention-price.question": "¿Cuánto es lo máximo que estarías dispuesto a pagar?*",
+
+    "reason-feedback.title": "¿Cuál es el motivo principal?",
+    "reason-feedback.required": "Escribe al menos {min} caracteres para que podamos entender tus comentarios*",
+    "retention-platform.question": "¿Qué podemos cambiar para que la plataforma sea más útil?*",
+    "retention-platform.placeholder": "Cuéntanos qué haría la plataforma más útil...",
+    "retention-jobs.question": "¿Cómo podemos hacer que las ofertas de trabajo sean más relevantes?*",
+    "retention-jobs.placeholder": "Cuéntanos cómo podemos mostrar ofertas más relevantes...",
+    "retention-move.question": "¿Qué cambió para que decidieras no mudarte?*",
+    "retention-move.placeholder": "Cuéntanos qué te hizo cambiar de opinión sobre mudarte...",
+    "retention-other.question": "¿Qué te habría ayudado más?*",
+    "retention-other.placeholder": "Cuéntanos qué te habría ayudado más...",
+
+    "final.title": "Lamentamos que te vayas.",
+    "final.body": "Gracias por estar con nosotros; siempre serás bienvenido de vuelta.",
+    "final.period-end": "Tu suscripción terminará el {date}.",
+    "final.button": "Volver a las ofertas",
+  },
+
+  profile: {
+    "title": "Mi perfil",
+    "title-short": "Perfil",
+    "sign-in": "Inicia sesión para gestionar tu suscripción.",
+    "back-to-jobs": "Volver a las ofertas",
+    "back-to-jobs-short": "Ofertas",
+    "sign-out": "Cerrar sesión",
+    "signing-out": "Cerrando sesión...",
+
+    "account": "Información de la cuenta",
+    "email": "Correo electrónico",
+    "language": "Idioma",
+    "language-auto": "Automático ({language})",
+    "status": "Estado de la suscripción",
+    "status-active": "Activa",
+    "status-cancelled": "Cancelada",
+    "monthly-price": "Precio mensual",
+    "next-payment": "Próximo pago",
+    "cancelled-title": "Suscripción cancelada",
+    "cancelled-body": "Mantendrás el acceso hasta que termine tu período actual",
+
+    "discount-upcoming": "{price}/mes a partir del {date}",
+    "discount-until": "Con descuento hasta el {date}",
+    "discount-until-job": "Con descuento hasta que consigas trabajo",
+    "discount": "Con descuento",
+
+    "support": "Contactar con soporte",
+    "support-title": "Enviar un correo a soporte",
+    "manage": "Gestionar suscripción",
+    "reactivate": "Reactivar suscripción",
+    "reactivating": "Reactivando...",
+    "subscribe": "Suscribirse a Migrate Mate",
+    "payment-method-updated": "Tu método de pago se ha actualizado.",
+    "update-payment-method": "Actualizar método de pago",
+    "redirecting": "Redirigiendo...",
+    "show-billing-history": "Ver historial de facturación",
+    "hide-billing-history": "Ocultar historial de facturación",
+    "cancel": "Cancelar Migrate Mate",
+
+    "error-reactivate": "No se pudo reactivar la suscripción",
+    "error-payment-method": "No se pudo actualizar el método de pago",
+    "error-language": "No se pudo cambiar el idioma",
+
+    "billing.loading": "Cargando facturas...",
+    "billing.empty": "Todavía no hay facturas.",
+    "billing.paid": "Pagada",
+    "billing.open": "Pendiente",
+    "billing.void": "Anulada",
+    "billing.discounted": "Con descuento",
+    "billing.receipt": "Recibo",
+    "billing.download": "Descargar",
+    "billing.newer": "Más recientes",
+    "billing.older": "Anteriores",
+    "billing.page": "Página {page} de {count}",
+  },
+
+  email: {
+    "greeting": "Hola:",
+    "sign-off": "El equipo de Migrate Mate",
+    "manage": "Gestionar tu suscripción",
+
+    "cancellation-confirmed.subject": "Tu suscripción a Migrate Mate está cancelada",
+    "cancellation-confirmed.body": "Tu cancelación está confirmada y no se te volverá a cobrar. Mantienes el acceso completo hasta el {date}.",
+    "cancellation-confirmed.reactivate": "¿Cambiaste de opinión? Puedes reactivarla desde tu perfil en cualquier momento antes de esa fecha.",
+
+    "downsell-accepted.subject": "Tu nuevo precio de Migrate Mate",
+    "downsell-accepted.body": "¡Gracias por quedarte con nosotros! A partir del {date} pagarás {price}/mes en lugar de {original}.",
+    "downsell-accepted.free-months": "¡Gracias por quedarte con nosotros! No te cobraremos desde el {date} hasta el {end}; después volverás a pagar {original}/mes.",
+    "downsell-accepted.until-job": "El descuento dura hasta que consigas trabajo.",
+    "downsell-accepted.until": "El descuento dura hasta el {date}.",
+
+    "visa-handoff.subject": "Ayuda con tu visado",
+    "visa-handoff.body": "Nos contaste que no tienes abogado de inmigración para tu visado {visa}. Me pondré en contacto contigo pronto para ayudarte con el tema del visado.",
+    "visa-handoff.reply": "Mientras tanto, responde a este correo si tienes cualquier pregunta.",
+    "visa-handoff.signature": "Mihailo Bozic, Migrate Mate",
+
+    "reactivation-reminder.subject": "Tu acceso a Migrate Mate termina el {date}",
+    "reactivation-reminder.body": "Tu suscripción termina el {date}. Si quieres seguir con tu búsqueda de empleo, reactívala antes y todo seguirá igual.",
+    "reactivation-reminder.button": "Reactivar suscripción",
+  },
+
+  receipt: {
+    "title": "Recibo",
+    "page-title": "Recibo – {period}",
+    "number": "Número de recibo",
+    "date": "Fecha",
+    "billed-to": "Facturado a",
+    "status": "Estado",
+    "status.paid": "Pagado",
+    "status.open": "Pendiente",
+    "status.void": "Anulado",
+    "subscription": "Suscripción mensual a Migrate Mate",
+    "discount": "Descuento de fidelización",
+    "total": "Total",
+  },
+}
@@ -0,0 +1,20 @@
+// Message catalogs, one per locale, keyed by message id
+// English is the source; the other catalogs must translate every key it has.
+import { fillMessage, type Locale } from "@/lib/i18n"
+import { en } from "@/lib/messages/en"
+import { es } from "@/lib/messages/es"
+import { pt } from "@/lib/messages/pt"
+
+export type Messages = { [Section in keyof typeof en]: Record<keyof (typeof en)[Section], string> }
+
+export type FlowMessageKey = keyof Messages["flow"]
+export type ProfileMessageKey = keyof Messages["profile"]
+export type EmailMessageKey = keyof Messages["email"]
+export type ReceiptMessageKey = keyof Messages["receipt"]
+
+export const MESSAGES: Record<Locale, Messages> = { en, es, pt }
+
+// Profile page and billing history messages with their placeholders filled in
+export function translate(locale: Locale, key: ProfileMessageKey, values?: Record<string, string | number>): string {
+  return fillMessage(MESSAGES[locale].profile[key], values)
+}
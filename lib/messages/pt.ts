@@ -0,0 +1,219 @@
+// Portuguese (Brazilian) messages
+import type { Messages } from "@/lib/messages"
+
+export const pt: Messages = {
+  flow: {
+    "header.title": "Cancelamento da assinatura",
+    "engine.loading": "Carregando o cancelamento...",
+    "engine.error": "Erro ao carregar o cancelamento:",
+    "engine.close": "Fechar",
+    "engine.back": "Voltar",
+    "engine.image-alt": "Horizonte de uma cidade representando oportunidades de carreira",
+    "engine.saving": "Salvando suas respostas...",
+    "engine.offline": "Você está offline. Enviaremos suas respostas assim que a conexão voltar.",
+    "engine.save-failed": "Não foi possível salvar suas respostas: {error}",
+    "engine.retry": "Tentar novamente",
+
+    "common.yes": "Sim",
+    "common.no": "Não",
+    "common.continue": "Continuar",
+    "common.complete-cancellation": "Concluir cancelamento",
+    "common.finish": "Concluir",
+    "common.min-characters": "Mín. {min} caracteres ({count}/{min})",
+    "common.per-month": "{price}/mês",
+    "common.reactivate": "Mudou de ideia? Você pode reativar a qualquer momento antes da data de término.",
+    "common.access-until-end": "Você continua com acesso completo até lá. Depois disso, não haverá mais cobranças.",
+
+    "job-question.greeting": "Olá!",
+    "job-question.title": "Uma pergunta rápida antes de você ir.",
+    "job-question.question": "Você já encontrou um emprego?",
+    "job-question.body":
+      "Seja qual for a resposta, queremos ajudar você a dar o próximo passo. Com apoio para o visto, ou ouvindo como podemos melhorar.",
+    "job-question.yes": "Sim, encontrei um emprego",
+    "job-question.no": "Ainda não, continuo procurando",
+
+    "survey.title": "Parabéns pelo novo emprego! 🎉",
+    "survey.found-with-mm": "Você encontrou este emprego pelo MigrateMate?*",
+    "survey.roles-applied": "Para quantas vagas você se candidatou pelo Migrate Mate?*",
+    "survey.companies-emailed": "Para quantas empresas você enviou e-mail diretamente?*",
+    "survey.companies-interviewed": "Com quantas empresas diferentes você fez entrevistas?*",
+
+    "feedback.title": "Em que você gostaria que tivéssemos ajudado?",
+    "feedback.body":
+      "Estamos sempre buscando melhorar; sua opinião nos ajuda a tornar o Migrate Mate mais útil para outras pessoas.*",
+    "feedback.placeholder": "Sua opinião...",
+
+    "congratulations.title": "Você conseguiu o emprego!",
+    "congratulations.subtitle": "É para isso que trabalhamos.",
+    "congratulations.body": "Mesmo que não tenha sido pelo Migrate Mate,\ndeixe a gente ajudar com o seu visto.",
+
+    "visa.title": "Ajudamos você a conseguir o emprego; agora vamos ajudar com o seu visto.",
+    "visa.lawyer-question": "Sua empresa vai oferecer um advogado de imigração para ajudar com o visto?",
+    "visa.partner": "Podemos colocar você em contato com um dos nossos parceiros de confiança.",
+    "visa.type-question-lawyer": "Qual visto você vai solicitar?*",
+    "visa.type-question-no-lawyer": "Qual visto você gostaria de solicitar?*",
+    "visa.placeholder": "Selecione seu visto...",
+    "visa.search-placeholder": "Busque pelo nome, ex.: H-1B ou Blue Card",
+    "visa.no-results": "Nenhum visto encontrado.",
+    "visa.other": "Outro visto",
+    "visa.other-placeholder": "Digite o tipo de visto...",
+
+    "success.title": "Pronto, seu cancelamento foi processado.",
+    "success.body": "Ficamos muito felizes em saber que você conseguiu um emprego e resolveu o visto.",
+    "success.congrats": "Parabéns de toda a equipe! 🙌",
+
+    "success-alt.title": "Seu cancelamento está concluído, sem mais cobranças.",
+    "success-alt.contact-name": "Mihailo Bozic",
+    "success-alt.contact-email": "mihailo@migratemate.co",
+    "success-alt.reach-out": "Vou entrar em contato em breve para ajudar com a parte do visto.",
+    "success-alt.support": "Pode contar com a gente, seja para dúvidas, documentos ou para entender suas opções.",
+    "success-alt.period-end": "Sua assinatura termina em {date}.",
+
+    "offer.title": "Criamos isto para ajudar você a conseguir um emprego, e isto deixa tudo um pouco mais fácil.",
+    "offer.body": "Já passamos por isso e estamos aqui para ajudar.",
+    "offer.headline": "Aqui está {offer} até você encontrar um emprego.",
+    "offer.headline-free-months": "Aqui está {offer} enquanto você continua procurando.",
+    "offer.then": "Depois {price}/mês",
+    "offer.accept": "Quero {offer}",
+    "offer.billing-note": "Você não será cobrado até a próxima data de cobrança.",
+    "offer.decline": "Não, obrigado",
+
+    "discount.percent-off": "{percent}% de desconto",
+    "discount.amount-off": "{amount} de desconto",
+    "discount.free-month": "1 mês grátis",
+    "discount.free-months": "{months} meses grátis",
+
+    "accepted.title": "Ótima escolha!",
+    "accepted.subtitle": "Você continua no caminho para o emprego dos seus sonhos.",
+    "accepted.together": "Vamos fazer isso acontecer juntos!",
+    "accepted.days-left": "Restam {days} dias no seu plano atual.",
+    "accepted.day-left": "Resta 1 dia no seu plano atual.",
+    "accepted.new-price": "A partir de {date}, seu pagamento mensal será de {price}.",
+    "accepted.free-months": "A partir de {date} você terá {offer}; depois disso, seu pagamento mensal será de {price}.",
+    "accepted.cancel-anytime": "Você pode cancelar a qualquer momento antes disso.",
+    "accepted.button": "Conquiste o emprego dos seus sonhos",
+
+    "retention-survey.title": "Ajude-nos a entender como você usava o Migrate Mate.",
+    "retention-survey.roles-applied": "Para quantas vagas você se candidatou pelo Migrate Mate?",
+    "retention-survey.companies-emailed": "Para quantas empresas você enviou e-mail diretamente?",
+    "retention-survey.companies-interviewed": "Com quantas empresas diferentes você fez entrevistas?",
+
+    "reason.title": "Qual é o principal motivo do cancelamento?",
+    "reason.body": "Reserve um minuto para nos contar o porquê:",
+    "reason.required": "Para entendermos sua experiência, selecione um motivo de cancelamento*",
+
+    "retention-price.question": "Qual é o valor máximo que você estaria disposto a pagar?*",
+
+    "reason-feedback.title": "Qual é o principal motivo?",
+    "reason-feedback.required": "Digite pelo menos {min} caracteres para entendermos sua opinião*",
+    "retention-platform.question": "O que podemos mudar para tornar a plataforma mais útil?*",
+    "retention-platform.placeholder": "Conte o que tornaria a plataforma mais útil...",
+    "retention-jobs.question": "Como podemos tornar as vagas mais relevantes?*",
+    "retention-jobs.placeholder": "Conte como podemos mostrar vagas mais relevantes...",
+    "retention-move.question": "O que mudou para você decidir não se mudar?*",
+    "retention-move.placeholder": "Conte o que fez você mudar de ideia sobre a mudança...",
+    "retention-other.question": "O que mais teria ajudado você?*",
+    "retention-other.placeholder": "Conte o que mais teria ajudado você...",
+
+    "final.title": "Que pena ver você partir.",
+    "final.body": "Obrigado por estar com a gente; você sempre será bem-vindo de volta.",
+    "final.period-end": "Sua assinatura termina em {date}.",
+    "final.button": "Voltar para as vagas",
+  },
+
+  profile: {
+    "title": "Meu perfil",
+    "title-short": "Perfil",
+    "sign-in": "Entre na sua conta para gerenciar sua assinatura.",
+    "back-to-jobs": "Voltar para as vagas",
+    "back-to-jobs-short": "Vagas",
+    "sign-out": "Sair",
+    "signing-out": "Saindo...",
+
+    "account": "Informações da conta",
+    "email": "E-mail",
+    "language": "Idioma",
+    "language-auto": "Automático ({language})",
+    "status": "Status da assinatura",
+    "status-active": "Ativa",
+    "status-cancelled": "Cancelada",
+    "monthly-price": "Preço mensal",
+    "next-payment": "Próximo pagamento",
+    "cancelled-title": "Assinatura cancelada",
+    "cancelled-body": "O acesso continua até o fim do período atual",
+
+    "discount-upcoming": "{price}/mês a partir de {date}",
+    "discount-until": "Com desconto até {date}",
+    "discount-until-job": "Com desconto até você conseguir um emprego",
+    "discount": "Com desconto",
+
+    "support": "Falar com o suporte",
+    "support-title": "Enviar e-mail para o suporte",
+    "manage": "Gerenciar assinatura",
+    "reactivate": "Reativar assinatura",
+    "reactivating": "Reativando...",
+    "subscribe": "Assinar o Migrate Mate",
+    "payment-method-updated": "Sua forma de pagamento foi atualizada.",
+    "update-payment-method": "Atualizar forma de pagamento",
+    "redirecting": "Redirecionando...",
+    "show-billing-history": "Ver histórico de cobranças",
+    "hide-billing-history": "Ocultar histórico de cobranças",
+    "cancel": "Cancelar o Migrate Mate",
+
+    "error-reactivate": "Não foi possível reativar a assinatura",
+    "error-payment-method": "Não foi possível atualizar a forma de pagamento",
+    "error-language": "Não foi possível mudar o idioma",
+
+    "billing.loading": "Carregando faturas...",
+    "billing.empty": "Nenhuma fatura ainda.",
+    "billing.paid": "Paga",
+    "billing.open": "Em aberto",
+    "billing.void": "Anulada",
+    "billing.discounted": "Com desconto",
+    "billing.receipt": "Recibo",
+    "billing.download": "Baixar",
+    "billing.newer": "Mais recentes",
+    "billing.older": "Anteriores",
+    "billing.page": "Página {page} de {count}",
+  },
+
+  email: {
+    "greeting": "Olá,",
+    "sign-off": "Equipe Migrate Mate",
+    "manage": "Gerenciar sua assinatura",
+
+    "cancellation-confirmed.subject": "Sua assinatura do Migrate Mate foi cancelada",
+    "cancellation-confirmed.body": "Seu cancelamento está confirmado e você não será cobrado novamente. Você mantém o acesso completo até {date}.",
+    "cancellation-confirmed.reactivate": "Mudou de ideia? Você pode reativar pelo seu perfil a qualquer momento antes dessa data.",
+
+    "downsell-accepted.subject": "Seu novo preço no Migrate Mate",
+    "downsell-accepted.body": "Obrigado por continuar com a gente! A partir de {date} você pagará {price}/mês em vez de {original}.",
+    "downsell-accepted.free-months": "Obrigado por continuar com a gente! Você não será cobrado de {date} até {end}; depois disso, voltará a pagar {original}/mês.",
+    "downsell-accepted.until-job": "O desconto vale até você conseguir um emprego.",
+    "downsell-accepted.until": "O desconto vale até {date}.",
+
+    "visa-handoff.subject": "Ajuda com seu visto",
+    "visa-handoff.body": "Você nos contou que não tem advogado de imigração para seu visto {visa}. Vou entrar em contato em breve para ajudar com a parte do visto.",
+    "visa-handoff.reply": "Enquanto isso, é só responder a este e-mail se tiver qualquer dúvida.",
+    "visa-handoff.signature": "Mihailo Bozic, Migrate Mate",
+
+    "reactivation-reminder.subject": "Seu acesso ao Migrate Mate termina em {date}",
+    "reactivation-reminder.body": "Sua assinatura termina em {date}. Se quiser continuar sua busca de emprego, reative antes disso e nada muda.",
+    "reactivation-reminder.button": "Reativar assinatura",
+  },
+
+  receipt: {
+    "title": "Recibo",
+    "page-title": "Recibo – {period}",
+    "number": "Número do recibo",
+    "date": "Data",
+    "billed-to": "Cobrado de",
+    "status": "Status",
+    "status.paid": "Pago",
+    "status.open": "Em aberto",
+    "status.void": "Anulado",
+    "subscription": "Assinatura mensal do Migrate Mate",
+    "discount": "Desconto de fidelização",
+    "total": "Total",
+  },
+}
@@ -0,0 +1,10 @@
+// Wire contracts for prices - every amount the API sends or accepts carries its currency
+import { z } from "zod"
+import { CURRENCIES, type Currency } from "@/lib/money"
+
+export const currencySchema = z.enum(Object.keys(CURRENCIES) as [Currency, ...Currency[]])
+
+export const moneySchema = z.object({
+  amount: z.number().int(), // Minor units of currency
+  currency: currencySchema,
+})
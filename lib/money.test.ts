@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest"
+import { formatMoney, fromMajor, money, percentOf, roundAmount, subtract, toMajor } from "@/lib/money"
+
+// Intl separates amount and symbol with non-breaking spaces in some locales
+const plain = (text: string) => text.replace(/\s/g, " ")
+
+describe("roundAmount", () => {
+  it("rounds to whole minor units, halves away from zero", () => {
+    expect(roundAmount(1249.5, "USD")).toBe(1250)
+    expect(roundAmount(1249.4, "USD")).toBe(1249)
+    expect(roundAmount(-1249.5, "USD")).toBe(-1250)
+  })
+
+  it("rounds to the currency's smallest step", () => {
+    expect(roundAmount(1247, "CHF")).toBe(1245)
+    expect(roundAmount(1248, "CHF")).toBe(1250)
+  })
+})
+
+describe("percentOf", () => {
+  it("keeps the currency and rounds by its rules", () => {
+    expect(percentOf(money(2999, "USD"), 50)).toEqual(money(1500, "USD"))
+    expect(percentOf(money(2990, "CHF"), 85)).toEqual(money(2540, "CHF"))
+    expect(percentOf(money(3333, "JPY"), 50)).toEqual(money(1667, "JPY"))
+  })
+
+  it("gives zero at 0% and the whole amount at 100%", () => {
+    expect(percentOf(money(2500, "EUR"), 0)).toEqual(money(0, "EUR"))
+    expect(percentOf(money(2500, "EUR"), 100)).toEqual(money(2500, "EUR"))
+  })
+})
+
+describe("subtract", () => {
+  it("never goes below zero", () => {
+    expect(subtract(money(1000, "USD"), money(1500, "USD"))).toEqual(money(0, "USD"))
+  })
+
+  it("refuses to mix currencies", () => {
+    expect(() => subtract(money(1000, "USD"), money(100, "EUR"))).toThrow("Cannot subtract EUR from USD")
+  })
+})
+
+describe("major units", () => {
+  it("converts by the currency's decimals, with none for yen", () => {
+    expect(toMajor(money(1250, "USD"))).toBe(12.5)
+    expect(toMajor(money(3000, "JPY"))).toBe(3000)
+    expect(fromMajor(12.5, "USD")).toEqual(money(1250, "USD"))
+    expect(fromMajor(19.99, "EUR")).toEqual(money(1999, "EUR"))
+    expect(fromMajor(3000, "JPY")).toEqual(money(3000, "JPY"))
+  })
+})
+
+describe("formatMoney", () => {
+  it("drops the decimals for whole amounts", () => {
+    expect(formatMoney(money(2500, "USD"))).toBe("$25")
+    expect(formatMoney(money(2550, "USD"))).toBe("$25.50")
+  })
+
+  it("never shows decimals for zero-decimal currencies", () => {
+    expect(plain(formatMoney(money(3000, "JPY"), "en"))).toBe("¥3,000")
+    expect(plain(formatMoney(money(3001, "JPY"), "en"))).toBe("¥3,001")
+  })
+
+  it("formats in the locale's style", () => {
+    expect(plain(formatMoney(money(1250, "EUR"), "es"))).toBe("12,50 €")
+    expect(plain(formatMoney(money(1250, "BRL"), "pt"))).toBe("R$ 12,50")
+  })
+})
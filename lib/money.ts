@@ -0,0 +1,80 @@
+// Money - amounts in a currency's minor units (cents, pence, whole yen) with the currency they're in
+// Pure so prices are rounded and formatted the same way on the server, in the flow and on the profile page.
+import { DEFAULT_LOCALE, type Locale } from "@/lib/i18n"
+
+interface CurrencyRules {
+  // Digits after the decimal point; amounts are stored in these units
+  minorUnits: number
+  // Smallest step a computed price may land on, in minor units (e.g. 5 rappen for CHF)
+  increment: number
+}
+
+export const CURRENCIES = {
+  USD: { minorUnits: 2, increment: 1 },
+  EUR: { minorUnits: 2, increment: 1 },
+  GBP: { minorUnits: 2, increment: 1 },
+  AUD: { minorUnits: 2, increment: 1 },
+  CAD: { minorUnits: 2, increment: 1 },
+  NZD: { minorUnits: 2, increment: 1 },
+  BRL: { minorUnits: 2, increment: 1 },
+  MXN: { minorUnits: 2, increment: 1 },
+  INR: { minorUnits: 2, increment: 1 },
+  CHF: { minorUnits: 2, increment: 5 },
+  JPY: { minorUnits: 0, increment: 1 },
+} satisfies Record<string, CurrencyRules>
+
+export type Currency = keyof typeof CURRENCIES
+
+export const DEFAULT_CURRENCY: Currency = "USD"
+
+export interface Money {
+  amount: number // Minor units of currency
+  currency: Currency
+}
+
+export function money(amount: number, currency: Currency): Money {
+  return { amount, currency }
+}
+
+// Rounds a computed amount to the nearest step the currency allows, halves away from zero
+export function roundAmount(amount: number, currency: Currency): number {
+  const { increment } = CURRENCIES[currency]
+  return Math.sign(amount) * Math.round(Math.abs(amount) / increment) * increment
+}
+
+export function percentOf({ amount, currency }: Money, percent: number): Money {
+  return money(roundAmount((amount * percent) / 100, currency), currency)
+}
+
+// Never below zero - a discount can make something free but not pay the user
+export function subtract(a: Money, b: Money): Money {
+  if (a.currency !== b.currency) throw new Error(`Cannot subtract ${b.currency} from ${a.currency}`)
+  return money(Math.max(0, a.amount - b.amount), a.currency)
+}
+
+// Amount in whole currency units, as people type and read it (12.5 for 1250 cents)
+export function toMajor({ amount, currency }: Money): number {
+  return amount / 10 ** CURRENCIES[currency].minorUnits
+}
+
+export function fromMajor(value: number, currency: Currency): Money {
+  return money(Math.round(value * 10 ** CURRENCIES[currency].minorUnits), currency)
+}
+
+// Formats in the locale's style, dropping the decimals for whole amounts ($25, 12,50 €, ¥3,000)
+export function formatMoney(value: Money, locale: Locale = DEFAULT_LOCALE): string {
+  const { minorUnits } = CURRENCIES[value.currency]
+  const digits = value.amount % 10 ** minorUnits === 0 ? 0 : minorUnits
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: value.currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(toMajor(value))
+}
+
+// The currency's symbol as the locale writes it, e.g. "$", "US$" or "€"
+export function currencySymbol(currency: Currency, locale: Locale = DEFAULT_LOCALE): string {
+  const parts = new Intl.NumberFormat(locale, { style: "currency", currency }).formatToParts(0)
+  return parts.find((part) => part.type === "currency")?.value ?? currency
+}
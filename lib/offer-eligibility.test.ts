@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from "vitest"
+import { evaluateEligibility, isAllowed } from "@/lib/offer-eligibility"
+import type { Subscription, SubscriptionDiscount } from "@/types/database"
+
+// Only the rules are under test; the module reads downsells through the database client
+vi.mock("@/lib/supabase", () => ({ supabaseAdmin: {} }))
+
+const NOW = new Date("2026-06-15T00:00:00.000Z")
+
+const subscription = {
+  id: "sub-1",
+  user_id: "user-1",
+  managed_organization: null,
+  is_uc_student: false,
+  is_trial: false,
+} as Subscription
+
+function downsell(overrides: Partial<SubscriptionDiscount>): SubscriptionDiscount {
+  return {
+    id: "discount-1",
+    subscription_id: "sub-1",
+    cancellation_id: "cancellation-1",
+    discounted_price: 1250,
+    term: "months",
+    starts_at: "2025-01-01T00:00:00.000Z",
+    ends_at: "2025-03-01T00:00:00.000Z",
+    reverted_at: null,
+    created_at: "2025-01-01T00:00:00.000Z",
+    ...overrides,
+  }
+}
+
+describe("evaluateEligibility", () => {
+  it("allows the downsell with no history and no special access", () => {
+    const eligibility = evaluateEligibility({ subscription, downsells: [], now: NOW })
+    expect(eligibility).toEqual({ allowed: ["downsell"], blocked: [] })
+  })
+
+  it("blocks every offer for managed access, UC students and trials", () => {
+    const cases = [
+      [{ managed_organization: "Acme" }, "managed-access"],
+      [{ is_uc_student: true }, "uc-student"],
+      [{ is_trial: true }, "trial"],
+    ] as const
+    for (const [change, rule] of cases) {
+      const eligibility = evaluateEligibility({ subscription: { ...subscription, ...change }, downsells: [], now: NOW })
+      expect(eligibility).toEqual({ allowed: [], blocked: [{ offer: "downsell", rules: [rule] }] })
+    }
+  })
+
+  it("lists every rule that blocks an offer", () => {
+    const eligibility = evaluateEligibility({
+      subscription: { ...subscription, is_trial: true, managed_organization: "Acme" },
+      downsells: [],
+      now: NOW,
+    })
+    expect(eligibility.blocked).toEqual([{ offer: "downsell", rules: ["managed-access", "trial"] }])
+  })
+
+  it("blocks the downsell for 12 months after one was taken, on any subscription", () => {
+    const recent = downsell({ subscription_id: "sub-old", created_at: "2025-07-01T00:00:00.000Z" })
+    const eligibility = evaluateEligibility({ subscription, downsells: [recent], now: NOW })
+
+    expect(isAllowed(eligibility, "downsell")).toBe(false)
+    expect(eligibility.blocked).toEqual([{ offer: "downsell", rules: ["prior-downsell"] }])
+  })
+
+  it("allows the downsell again once the cooldown has passed", () => {
+    const old = downsell({ created_at: "2025-06-14T00:00:00.000Z" })
+    expect(isAllowed(evaluateEligibility({ subscription, downsells: [old], now: NOW }), "downsell")).toBe(true)
+  })
+
+  it("keeps blocking while a price cut from before the cooldown is still running", () => {
+    const running = downsell({ term: "until_job_found", ends_at: null, created_at: "2024-01-01T00:00:00.000Z" })
+    expect(isAllowed(evaluateEligibility({ subscription, downsells: [running], now: NOW }), "downsell")).toBe(false)
+
+    const reverted = { ...running, reverted_at: "2025-01-01T00:00:00.000Z" }
+    expect(isAllowed(evaluateEligibility({ subscription, downsells: [reverted], now: NOW }), "downsell")).toBe(true)
+  })
+})
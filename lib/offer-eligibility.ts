@@ -0,0 +1,94 @@
+// Retention offer eligibility - which offers a user may be shown when they set out to cancel
+// Rules are checked on the server against the subscription and the user's downsell history; any rule that applies
+// blocks the offers it lists. Adding a rule is adding an entry to ELIGIBILITY_RULES.
+import { supabaseAdmin as supabase } from "@/lib/supabase"
+import { addMonths, findCurrentDiscount } from "@/lib/pricing"
+import { retentionOfferSchema, type OfferEligibility, type RetentionOffer } from "@/lib/cancellation-api"
+import type { Subscription, SubscriptionDiscount } from "@/types/database"
+
+export const RETENTION_OFFERS = retentionOfferSchema.options
+
+// A user gets at most one downsell in this many months, across all their subscriptions
+export const DOWNSELL_COOLDOWN_MONTHS = 12
+
+export interface EligibilityFacts {
+  subscription: Subscription
+  downsells: SubscriptionDiscount[] // Every downsell the user has taken, on any of their subscriptions
+  now: Date
+}
+
+export interface EligibilityRule {
+  id: string
+  description: string
+  offers: readonly RetentionOffer[] // What the rule blocks when it applies
+  applies: (facts: EligibilityFacts) => boolean
+}
+
+export const ELIGIBILITY_RULES: EligibilityRule[] = [
+  {
+    id: "managed-access",
+    description: "An organization manages and pays for the access",
+    offers: RETENTION_OFFERS,
+    applies: ({ subscription }) => subscription.managed_organization !== null,
+  },
+  {
+    id: "uc-student",
+    description: "Access through the UC student program",
+    offers: RETENTION_OFFERS,
+    applies: ({ subscription }) => subscription.is_uc_student,
+  },
+  {
+    id: "trial",
+    description: "Still on a trial",
+    offers: RETENTION_OFFERS,
+    applies: ({ subscription }) => subscription.is_trial,
+  },
+  {
+    // A price cut that outlives the cooldown (until a job is found) still counts while it runs
+    id: "prior-downsell",
+    description: `Took a downsell in the last ${DOWNSELL_COOLDOWN_MONTHS} months, or is still on one`,
+    offers: ["downsell"],
+    applies: ({ subscription, downsells, now }) =>
+      downsells.some((d) => addMonths(d.created_at, DOWNSELL_COOLDOWN_MONTHS) > now) ||
+      findCurrentDiscount(downsells.filter((d) => d.subscription_id === subscription.id), now) !== null,
+  },
+]
+
+export function evaluateEligibility(facts: EligibilityFacts, rules = ELIGIBILITY_RULES): OfferEligibility {
+  const applying = rules.filter((rule) => rule.applies(facts))
+  const blocked = RETENTION_OFFERS.map((offer) => ({
+    offer,
+    rules: applying.filter((rule) => rule.offers.includes(offer)).map((rule) => rule.id),
+  })).filter(({ rules }) => rules.length > 0)
+
+  return {
+    allowed: RETENTION_OFFERS.filter((offer) => !blocked.some((b) => b.offer === offer)),
+    blocked,
+  }
+}
+
+export function isAllowed(eligibility: OfferEligibility, offer: RetentionOffer): boolean {
+  return eligibility.allowed.includes(offer)
+}
+
+// Discounts only come from accepted downsells; any of the user's subscriptions count,
+// so starting a new subscription doesn't reset the cooldown
+async function listUserDownsells(userId: string): Promise<SubscriptionDiscount[]> {
+  const { data: subscriptions, error } = await supabase.from("subscriptions").select("id").eq("user_id", userId)
+
+  if (error) throw error
+  if (subscriptions.length === 0) return []
+
+  const { data, error: discountsError } = await supabase
+    .from("subscription_discounts")
+    .select("*")
+    .in("subscription_id", subscriptions.map((subscription: Pick<Subscription, "id">) => subscription.id))
+
+  if (discountsError) throw discountsError
+  return data
+}
+
+export async function getOfferEligibility(subscription: Subscription, now = new Date()): Promise<OfferEligibility> {
+  const downsells = await listUserDownsells(subscription.user_id)
+  return evaluateEligibility({ subscription, downsells, now })
+}
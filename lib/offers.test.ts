@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest"
+import { money } from "@/lib/money"
+import { resolveDownsellOffer } from "@/lib/offers"
+
+describe("resolveDownsellOffer", () => {
+  const monthlyPrice = money(2500, "USD")
+
+  it("prices a percent off until the user finds a job", () => {
+    const offer = resolveDownsellOffer("B", { type: "percent_off", percentOff: 50 }, monthlyPrice)
+    expect(offer?.term).toEqual({ type: "until_job_found", price: money(1250, "USD") })
+  })
+
+  it("gives free months and then the full price, not a zero price", () => {
+    const offer = resolveDownsellOffer("B", { type: "free_months", months: 2 }, monthlyPrice)
+    expect(offer?.term).toEqual({ type: "free_months", months: 2, priceAfter: monthlyPrice })
+  })
+})
@@ -0,0 +1,74 @@
+// Downsell offer model - prices the discount an experiment arm offers
+// Prices are Money in the subscription's currency; discounts round by that currency's rules
+import { formatMoney, money, percentOf, subtract, type Money } from "@/lib/money"
+import type { DownsellVariant } from "@/types/database"
+
+export type DownsellDiscount =
+  | { type: "percent_off"; percentOff: number }
+  | { type: "amount_off"; amountOff: Money } // Only offered to subscriptions in the same currency
+  | { type: "free_months"; months: number }
+
+// What the offer does to the price: a lower price until the user finds a job, or some months free
+// and then the full price again
+export type OfferTerm =
+  | { type: "until_job_found"; price: Money }
+  | { type: "free_months"; months: number; priceAfter: Money }
+
+// Offer as presented to the user, priced against their real subscription
+export interface DownsellOffer {
+  variant: DownsellVariant
+  discount: DownsellDiscount
+  label: string
+  originalPrice: Money
+  term: OfferTerm
+}
+
+export function applyDiscount(monthlyPrice: Money, discount: DownsellDiscount): Money {
+  switch (discount.type) {
+    case "percent_off":
+      return percentOf(monthlyPrice, 100 - discount.percentOff)
+    case "amount_off":
+      return subtract(monthlyPrice, discount.amountOff)
+    case "free_months":
+      return money(0, monthlyPrice.currency)
+  }
+}
+
+// An amount_off arm is written in one currency and can't price a subscription in another
+export function canApplyDiscount(monthlyPrice: Money, discount: DownsellDiscount | null): boolean {
+  return discount?.type !== "amount_off" || discount.amountOff.currency === monthlyPrice.currency
+}
+
+export function describeDiscount(discount: DownsellDiscount): string {
+  switch (discount.type) {
+    case "percent_off":
+      return `${discount.percentOff}% off`
+    case "amount_off":
+      return `${formatMoney(discount.amountOff)} off`
+    case "free_months":
+      return discount.months === 1 ? "1 month free" : `${discount.months} months free`
+  }
+}
+
+export function offerTerm(monthlyPrice: Money, discount: DownsellDiscount): OfferTerm {
+  return discount.type === "free_months"
+    ? { type: "free_months", months: discount.months, priceAfter: monthlyPrice }
+    : { type: "until_job_found", price: applyDiscount(monthlyPrice, discount) }
+}
+
+// A null discount means the arm shows no downsell (the control)
+export function resolveDownsellOffer(
+  variant: DownsellVariant,
+  discount: DownsellDiscount | null,
+  monthlyPrice: Money,
+): DownsellOffer | null {
+  if (!discount) return null
+
+  return {
+    variant,
+    discount,
+    label: describeDiscount(discount),
+    originalPrice: monthlyPrice,
+    term: offerTerm(monthlyPrice, discount),
+  }
+}
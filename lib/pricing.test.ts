@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest"
+import { addMonths } from "@/lib/pricing"
+
+describe("addMonths", () => {
+  it("clamps to the last day of a shorter month", () => {
+    expect(addMonths("2026-01-31T00:00:00Z", 1)).toEqual(new Date("2026-02-28T00:00:00Z"))
+    expect(addMonths("2028-01-31T00:00:00Z", 1)).toEqual(new Date("2028-02-29T00:00:00Z"))
+    expect(addMonths("2026-08-31T09:30:00Z", 1)).toEqual(new Date("2026-09-30T09:30:00Z"))
+  })
+
+  it("keeps the day of month across years", () => {
+    expect(addMonths("2026-11-15T00:00:00Z", 3)).toEqual(new Date("2027-02-15T00:00:00Z"))
+    expect(addMonths("2026-12-31T00:00:00Z", 12)).toEqual(new Date("2027-12-31T00:00:00Z"))
+  })
+
+  it("counts months in UTC whatever the server's time zone", () => {
+    // Late on the last day of the month in UTC is already the 1st further east
+    expect(addMonths("2026-01-31T23:30:00Z", 1)).toEqual(new Date("2026-02-28T23:30:00Z"))
+  })
+})
@@ -0,0 +1,57 @@
+// Effective subscription pricing - which discount, if any, applies at a point in time
+// Pure functions so both server code and the profile page can use them
+import { money, type Money } from "@/lib/money"
+import type { DownsellDiscount } from "@/lib/offers"
+import type { Subscription, SubscriptionDiscount } from "@/types/database"
+
+// How long a downsell lasts: free months run out, price cuts last until the user finds a job
+export function discountTerm(discount: DownsellDiscount): { term: SubscriptionDiscount["term"]; months: number | null } {
+  return discount.type === "free_months"
+    ? { term: "months", months: discount.months }
+    : { term: "until_job_found", months: null }
+}
+
+// In UTC, so the result doesn't depend on the server's time zone. Lands on the last day of the target month
+// when it is shorter (Jan 31 + 1 month = Feb 28), not past it
+export function addMonths(date: string | Date, months: number): Date {
+  const result = new Date(date)
+  const day = result.getUTCDate()
+  result.setUTCDate(1)
+  result.setUTCMonth(result.getUTCMonth() + months)
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate()
+  result.setUTCDate(Math.min(day, lastDay))
+  return result
+}
+
+function hasEnded(discount: SubscriptionDiscount, at: Date): boolean {
+  if (discount.reverted_at && new Date(discount.reverted_at) <= at) return true
+  return discount.ends_at !== null && new Date(discount.ends_at) <= at
+}
+
+export function isDiscountActive(discount: SubscriptionDiscount, at = new Date()): boolean {
+  return new Date(discount.starts_at) <= at && !hasEnded(discount, at)
+}
+
+// The discount in effect now, or else the next one scheduled to start
+export function findCurrentDiscount(
+  discounts: SubscriptionDiscount[],
+  at = new Date(),
+): SubscriptionDiscount | null {
+  const live = discounts
+    .filter((discount) => !hasEnded(discount, at))
+    .sort((a, b) => new Date(a.starts_at).getTime() - new Date(b.starts_at).getTime())
+  return live.find((discount) => isDiscountActive(discount, at)) ?? live[0] ?? null
+}
+
+export function getMonthlyPrice(subscription: Pick<Subscription, "monthly_price" | "currency">): Money {
+  return money(subscription.monthly_price, subscription.currency)
+}
+
+export function getEffectivePrice(
+  subscription: Pick<Subscription, "monthly_price" | "currency">,
+  discounts: SubscriptionDiscount[],
+  at = new Date(),
+): Money {
+  const active = discounts.find((discount) => isDiscountActive(discount, at))
+  return active ? money(active.discounted_price, subscription.currency) : getMonthlyPrice(subscription)
+}
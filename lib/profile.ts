@@ -0,0 +1,60 @@
+// Server data layer for the profile page
+import { supabaseAdmin } from "@/lib/supabase"
+import { listDiscounts } from "@/lib/discounts"
+import { findCurrentDiscount, getEffectivePrice } from "@/lib/pricing"
+import { DEFAULT_CURRENCY, money, type Money } from "@/lib/money"
+import type { Cancellation, Subscription, SubscriptionDiscount, User } from "@/types/database"
+
+export interface ProfileData {
+  user: User
+  subscription: Subscription | null
+  downsellAccepted: boolean
+  // What the user pays right now, after any discount
+  effectivePrice: Money
+  // Running or upcoming discount, if any
+  discount: SubscriptionDiscount | null
+}
+
+// Loads the user with their most recent subscription and whether they've taken a downsell on it
+export async function getProfile(userId: string): Promise<ProfileData | null> {
+  const { data: user, error: userError } = await supabaseAdmin
+    .from("users")
+    .select("*")
+    .eq("id", userId)
+    .maybeSingle()
+
+  if (userError) throw userError
+  if (!user) return null
+
+  const { data: subscription, error: subscriptionError } = await supabaseAdmin
+    .from("subscriptions")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (subscriptionError) throw subscriptionError
+  if (!subscription) {
+    return { user, subscription: null, downsellAccepted: false, effectivePrice: money(0, DEFAULT_CURRENCY), discount: null }
+  }
+
+  const { data: cancellations, error: cancellationError } = await supabaseAdmin
+    .from("cancellations")
+    .select("accepted_downsell")
+    .eq("subscription_id", subscription.id)
+    .eq("accepted_downsell", true)
+    .limit(1)
+
+  if (cancellationError) throw cancellationError
+
+  const discounts = await listDiscounts(subscription.id)
+
+  return {
+    user,
+    subscription,
+    downsellAccepted: (cancellations as Pick<Cancellation, "accepted_downsell">[]).length > 0,
+    effectivePrice: getEffectivePrice(subscription, discounts),
+    discount: findCurrentDiscount(discounts),
+  }
+}
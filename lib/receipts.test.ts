@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest"
+import { renderReceipt } from "@/lib/receipts"
+import type { ReceiptData } from "@/lib/invoices"
+
+const receipt = {
+  invoice: {
+    id: "invoice-1",
+    subscription_id: "sub-1",
+    provider_invoice_id: "in_123",
+    amount: 1250,
+    subtotal: 2500,
+    currency: "EUR",
+    status: "paid",
+    period_start: "2026-03-14T12:00:00.000Z",
+    period_end: "2026-04-14T12:00:00.000Z",
+    discount_id: "discount-1",
+    created_at: "2026-03-14T12:00:00.000Z",
+  },
+  user: { email: "ana@example.com", locale: "es" },
+  discount: { id: "discount-1" },
+} as ReceiptData
+
+// Intl separates amount and symbol with non-breaking spaces in some locales
+const plain = (text: string) => text.replace(/\s/g, " ")
+
+describe("renderReceipt", () => {
+  it("writes labels, dates, status and prices in the user's language", () => {
+    const html = plain(renderReceipt(receipt, "es"))
+
+    expect(html).toContain('<html lang="es">')
+    expect(html).toContain("<h1>Recibo</h1>")
+    expect(html).toContain("<dt>Estado</dt><dd>Pagado</dd>")
+    expect(html).toContain("14 de marzo de 2026")
+    expect(html).toContain("Descuento de fidelización</td><td>−12,50 €")
+    expect(html).toContain("<td>Total</td><td>12,50 €")
+  })
+
+  it("prices the line from the invoice's own subtotal", () => {
+    const html = plain(renderReceipt(receipt, "en"))
+
+    expect(html).toContain("Migrate Mate monthly subscription")
+    expect(html).toContain("€25")
+    expect(html).toContain("Retention discount</td><td>−€12.50")
+  })
+
+  it("shows only what was charged when the invoice has no subtotal", () => {
+    const html = renderReceipt({ ...receipt, invoice: { ...receipt.invoice, subtotal: null } }, "en")
+
+    expect(html).not.toContain("Retention discount")
+  })
+})
@@ -0,0 +1,62 @@
+// Printable HTML receipts for invoices - users save them as PDF from the browser's print dialog
+// Written in the user's language from the receipt catalog section
+import { fillMessage, formatLongDate, type Locale } from "@/lib/i18n"
+import { MESSAGES, type ReceiptMessageKey } from "@/lib/messages"
+import { formatMoney, money } from "@/lib/money"
+import { escapeHtml } from "@/lib/utils"
+import type { ReceiptData } from "@/lib/invoices"
+
+export function receiptFilename(invoice: ReceiptData["invoice"]) {
+  return `migrate-mate-receipt-${invoice.period_start.slice(0, 10)}.html`
+}
+
+// Priced from what the invoice recorded, so a later price change never rewrites an old receipt.
+// Invoices synced before subtotals were kept show only what was charged.
+export function renderReceipt({ invoice, user, discount }: ReceiptData, locale: Locale): string {
+  const m = (key: ReceiptMessageKey, values?: Record<string, string | number>) =>
+    escapeHtml(fillMessage(MESSAGES[locale].receipt[key], values))
+  const date = (value: string) => formatLongDate(value, locale)
+  const period = `${date(invoice.period_start)} – ${date(invoice.period_end)}`
+  const price = (amount: number) => formatMoney(money(amount, invoice.currency), locale)
+  const subtotal = invoice.subtotal ?? invoice.amount
+  const discountAmount = subtotal - invoice.amount
+  const rows = [
+    `<tr><td>${m("subscription")}<br><span class="muted">${period}</span></td><td>${price(subtotal)}</td></tr>`,
+    discount && discountAmount > 0
+      ? `<tr><td>${m("discount")}</td><td>−${price(discountAmount)}</td></tr>`
+      : "",
+    `<tr class="total"><td>${m("total")}</td><td>${price(invoice.amount)}</td></tr>`,
+  ].join("")
+
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<title>${m("page-title", { period })}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111827; max-width: 640px; margin: 48px auto; padding: 0 24px; }
+  h1 { font-size: 24px; margin-bottom: 4px; }
+  .muted { color: #6b7280; font-size: 14px; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; margin: 32px 0; font-size: 14px; }
+  dt { color: #6b7280; }
+  table { width: 100%; border-collapse: collapse; font-size: 14px; }
+  td { padding: 12px 0; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  td:last-child { text-align: right; white-space: nowrap; }
+  .total td { font-weight: 600; border-bottom: none; }
+  @media print { body { margin: 0 auto; } }
+</style>
+</head>
+<body>
+<h1>${m("title")}</h1>
+<p class="muted">Migrate Mate</p>
+<dl>
+  <dt>${m("number")}</dt><dd>${escapeHtml(invoice.provider_invoice_id)}</dd>
+  <dt>${m("date")}</dt><dd>${date(invoice.created_at)}</dd>
+  <dt>${m("billed-to")}</dt><dd>${escapeHtml(user.email)}</dd>
+  <dt>${m("status")}</dt><dd>${m(`status.${invoice.status}`)}</dd>
+</dl>
+<table>${rows}</table>
+</body>
+</html>
+`
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest"
+import { normalCdf, twoProportionZTest, wilsonInterval } from "@/lib/stats"
+
+describe("wilsonInterval", () => {
+  it("matches the 95% Wilson interval for a half-and-half split", () => {
+    const { low, high } = wilsonInterval(50, 100)
+    expect(low).toBeCloseTo(0.4038, 4)
+    expect(high).toBeCloseTo(0.5962, 4)
+  })
+
+  it("stays inside 0..1 when nothing or everything succeeded", () => {
+    expect(wilsonInterval(0, 10)).toEqual({ low: 0, high: expect.closeTo(0.2775, 4) })
+    expect(wilsonInterval(10, 10)).toEqual({ low: expect.closeTo(0.7225, 4), high: expect.closeTo(1, 9) })
+  })
+
+  it("is empty with no trials", () => {
+    expect(wilsonInterval(0, 0)).toEqual({ low: 0, high: 0 })
+  })
+
+  it("narrows as the sample grows", () => {
+    const small = wilsonInterval(5, 10)
+    const large = wilsonInterval(500, 1000)
+    expect(large.high - large.low).toBeLessThan(small.high - small.low)
+  })
+})
+
+describe("twoProportionZTest", () => {
+  it("finds a significant difference between 50% and 65% of 100", () => {
+    const result = twoProportionZTest(50, 100, 65, 100)
+    expect(result?.z).toBeCloseTo(2.1456, 3)
+    expect(result?.pValue).toBeCloseTo(0.0319, 3)
+  })
+
+  it("signs z by whether the second rate is higher", () => {
+    expect(twoProportionZTest(65, 100, 50, 100)?.z).toBeCloseTo(-2.1456, 3)
+  })
+
+  it("gives p = 1 when the rates are equal or there is no variation", () => {
+    expect(twoProportionZTest(20, 40, 10, 20)?.pValue).toBeCloseTo(1, 6)
+    expect(twoProportionZTest(0, 40, 0, 20)).toEqual({ z: 0, pValue: 1 })
+  })
+
+  it("can't compare an arm with no sessions", () => {
+    expect(twoProportionZTest(0, 0, 5, 10)).toBeNull()
+  })
+})
+
+describe("normalCdf", () => {
+  it("matches the standard normal table", () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6)
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 4)
+    expect(normalCdf(-1.96)).toBeCloseTo(0.025, 4)
+  })
+})
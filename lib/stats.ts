@@ -0,0 +1,56 @@
+// Small statistics helpers for experiment reporting
+
+export interface Interval {
+  low: number
+  high: number
+}
+
+// 95% two-sided critical value
+export const Z_95 = 1.959964
+
+// Wilson score interval - stays sensible for small samples and rates near 0 or 1
+export function wilsonInterval(successes: number, trials: number, z = Z_95): Interval {
+  if (trials === 0) return { low: 0, high: 0 }
+
+  const p = successes / trials
+  const z2 = z * z
+  const denominator = 1 + z2 / trials
+  const centre = (p + z2 / (2 * trials)) / denominator
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / denominator
+
+  return { low: Math.max(0, centre - margin), high: Math.min(1, centre + margin) }
+}
+
+// Abramowitz-Stegun approximation, accurate to ~1e-7
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1
+  const t = 1 / (1 + 0.3275911 * Math.abs(x))
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  return sign * (1 - poly * Math.exp(-x * x))
+}
+
+export function normalCdf(x: number): number {
+  return 0.5 * (1 + erf(x / Math.SQRT2))
+}
+
+export interface ProportionTest {
+  z: number
+  pValue: number
+}
+
+// Two-sided pooled z-test for a difference between two proportions
+export function twoProportionZTest(
+  successesA: number,
+  trialsA: number,
+  successesB: number,
+  trialsB: number,
+): ProportionTest | null {
+  if (trialsA === 0 || trialsB === 0) return null
+
+  const pooled = (successesA + successesB) / (trialsA + trialsB)
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / trialsA + 1 / trialsB))
+  if (standardError === 0) return { z: 0, pValue: 1 }
+
+  const z = (successesB / trialsB - successesA / trialsA) / standardError
+  return { z, pValue: 2 * (1 - normalCdf(Math.abs(z))) }
+}
@@ -0,0 +1,34 @@
+// Subscription API - the profile page's reactivate and payment method actions
+import { z } from "zod"
+import { currencySchema } from "@/lib/money-api"
+
+export const subscriptionIdSchema = z.string().uuid()
+
+export const subscriptionSchema = z.object({
+  id: subscriptionIdSchema,
+  user_id: z.string().uuid(),
+  monthly_price: z.number().int(), // Minor units of currency
+  currency: currencySchema,
+  status: z.enum(["active", "pending_cancellation", "cancelled"]),
+  current_period_end: z.string(),
+  is_trial: z.boolean(),
+  is_uc_student: z.boolean(),
+  managed_organization: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+})
+
+// POST /api/subscriptions/:id/reactivate, DELETE /api/subscriptions/:id/discount
+export const subscriptionResponseSchema = z.object({
+  success: z.literal(true),
+  subscription: subscriptionSchema,
+})
+
+// POST /api/subscriptions/:id/payment-method
+export const paymentMethodResponseSchema = z.object({
+  success: z.literal(true),
+  url: z.string().url(),
+})
+
+export type SubscriptionResponse = z.infer<typeof subscriptionResponseSchema>
+export type PaymentMethodResponse = z.infer<typeof paymentMethodResponseSchema>
@@ -0,0 +1,52 @@
+// Subscription service - lookups shared by the cancellation API and subscription actions
+import { supabaseAdmin as supabase } from "@/lib/supabase"
+import { ApiError } from "@/lib/api"
+import { getBillingProvider } from "@/lib/billing"
+import { afterBilling, callFunction } from "@/lib/db"
+import type { Subscription } from "@/types/database"
+
+export async function getSubscription(subscriptionId: string): Promise<Subscription> {
+  const { data, error } = await supabase
+    .from("subscriptions")
+    .select("*")
+    .eq("id", subscriptionId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) throw new ApiError(404, "Subscription not found")
+  return data
+}
+
+export async function getOwnedSubscription(userId: string, subscriptionId: string): Promise<Subscription> {
+  const subscription = await getSubscription(subscriptionId)
+  if (subscription.user_id !== userId) throw new ApiError(403, "You do not have access to this subscription")
+  return subscription
+}
+
+// Undoes a confirmed cancellation while the paid period is still running.
+// The cancellation record is kept and marked reactivated so churn reporting can see it.
+export async function reactivateSubscription(userId: string, subscriptionId: string): Promise<Subscription> {
+  const subscription = await getOwnedSubscription(userId, subscriptionId)
+
+  if (subscription.status === "cancelled" || new Date(subscription.current_period_end) <= new Date()) {
+    throw new ApiError(409, "Subscription has already ended")
+  }
+  if (subscription.status !== "pending_cancellation") {
+    throw new ApiError(409, "Subscription is not pending cancellation")
+  }
+
+  await getBillingProvider().resume(subscription)
+
+  return afterBilling("Billing was resumed but the subscription could not be reactivated; please try again", () =>
+    callFunction<Subscription>("reactivate_subscription", { p_subscription_id: subscriptionId }),
+  )
+}
+
+// Starts a card update on the provider's hosted page, which sends the user back to returnUrl
+export async function updatePaymentMethod(userId: string, subscriptionId: string, returnUrl: string): Promise<string> {
+  const subscription = await getOwnedSubscription(userId, subscriptionId)
+  if (subscription.status === "cancelled") throw new ApiError(409, "Subscription has already ended")
+
+  const { url } = await getBillingProvider().updateCard(subscription, returnUrl)
+  return url
+}
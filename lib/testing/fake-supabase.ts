@@ -0,0 +1,152 @@
+// In-memory stand-in for the Supabase query builder, for tests of code that reads and writes tables directly
+// Covers the calls lib/ makes: select, insert, update and delete filtered with eq, is, lt, lte and in, and order
+import { UNIQUE_VIOLATION } from "@/lib/db"
+
+type Row = Record<string, unknown>
+type Filter = (row: Row) => boolean
+
+interface Result {
+  data: unknown
+  error: { code: string; message: string } | null
+}
+
+// Primary keys per table, so inserting a duplicate fails the way Postgres does
+const PRIMARY_KEYS: Record<string, string[]> = {
+  idempotency_keys: ["user_id", "key"],
+}
+
+class FakeQuery implements PromiseLike<Result> {
+  private filters: Filter[] = []
+  private action: { type: "select" } | { type: "insert"; rows: Row[] } | { type: "update"; values: Row } | { type: "delete" } =
+    { type: "select" }
+  private returning = false
+  private columns: string[] | null = null
+  private sort: ((a: Row, b: Row) => number) | null = null
+  private one: "single" | "maybe" | null = null
+
+  constructor(
+    private table: string,
+    private rows: Row[],
+  ) {}
+
+  // Columns left out of an insert read back as null, as they would from Postgres
+  select(columns = "*") {
+    this.returning = this.action.type !== "select"
+    this.columns = columns === "*" ? null : columns.split(",").map((column) => column.trim())
+    return this
+  }
+
+  insert(rows: Row | Row[]) {
+    this.action = { type: "insert", rows: Array.isArray(rows) ? rows : [rows] }
+    return this
+  }
+
+  update(values: Row) {
+    this.action = { type: "update", values }
+    return this
+  }
+
+  delete() {
+    this.action = { type: "delete" }
+    return this
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] === value)
+    return this
+  }
+
+  is(column: string, value: null) {
+    this.filters.push((row) => (row[column] ?? null) === value)
+    return this
+  }
+
+  lt(column: string, value: string) {
+    this.filters.push((row) => String(row[column]) < value)
+    return this
+  }
+
+  lte(column: string, value: string) {
+    this.filters.push((row) => String(row[column]) <= value)
+    return this
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(row[column]))
+    return this
+  }
+
+  order(column: string, { ascending = true }: { ascending?: boolean } = {}) {
+    this.sort = (a, b) => String(a[column]).localeCompare(String(b[column])) * (ascending ? 1 : -1)
+    return this
+  }
+
+  single() {
+    this.one = "single"
+    return this
+  }
+
+  maybeSingle() {
+    this.one = "maybe"
+    return this
+  }
+
+  then<A = Result, B = never>(
+    onFulfilled?: ((value: Result) => A | PromiseLike<A>) | null,
+    onRejected?: ((reason: unknown) => B | PromiseLike<B>) | null,
+  ): PromiseLike<A | B> {
+    return Promise.resolve(this.run()).then(onFulfilled, onRejected)
+  }
+
+  private run(): Result {
+    const matching = () => this.rows.filter((row) => this.filters.every((filter) => filter(row)))
+    let data: Row[]
+
+    switch (this.action.type) {
+      case "select":
+        data = matching()
+        break
+      case "insert": {
+        const key = PRIMARY_KEYS[this.table] ?? ["id"]
+        for (const row of this.action.rows) {
+          if (this.rows.some((existing) => key.every((column) => existing[column] === row[column]))) {
+            return { data: null, error: { code: UNIQUE_VIOLATION, message: "duplicate key value" } }
+          }
+        }
+        data = this.action.rows.map((row) => ({ ...row }))
+        this.rows.push(...data)
+        break
+      }
+      case "update": {
+        data = matching()
+        for (const row of data) Object.assign(row, this.action.values)
+        break
+      }
+      case "delete":
+        data = matching()
+        for (const row of data) this.rows.splice(this.rows.indexOf(row), 1)
+        break
+    }
+
+    if (this.action.type !== "select" && !this.returning && !this.one) return { data: null, error: null }
+    if (this.sort) data = [...data].sort(this.sort)
+    if (this.columns) {
+      const columns = this.columns
+      data = data.map((row) => Object.fromEntries(columns.map((column) => [column, row[column] ?? null])))
+    }
+    if (this.one === "single" && data.length !== 1) return { data: null, error: { code: "PGRST116", message: "not one row" } }
+    if (this.one) return { data: data[0] ?? null, error: null }
+    return { data, error: null }
+  }
+}
+
+export function createFakeSupabase(seed: Record<string, object[]> = {}) {
+  const tables = seed as Record<string, Row[]>
+  return {
+    tables,
+    from(table: string) {
+      tables[table] ??= []
+      return new FakeQuery(table, tables[table])
+    },
+  }
+}
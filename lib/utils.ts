@@ -4,3 +4,13 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// For text put into HTML we build as a string (emails, receipts)
+export function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`)
+}
+
+// Whole days remaining until a date, never negative
+export function daysUntil(date: string | Date, now = new Date()) {
+  return Math.max(0, Math.ceil((new Date(date).getTime() - now.getTime()) / 86_400_000))
+}
@@ -0,0 +1,61 @@
+// Visa support leads - the handoff from the flow and the staff queue
+import { z } from "zod"
+
+export const visaSupportRequestIdSchema = z.string().uuid()
+
+export const visaSupportStatusSchema = z.enum(["open", "claimed", "closed"])
+
+// POST /api/cancellations/:id/visa-support - the lead is built from the session's saved answers
+export const createVisaSupportRequestSchema = z.object({}).strict()
+
+export const visaSupportNoteSchema = z.object({
+  id: z.number().int(),
+  author_email: z.string().nullable(),
+  body: z.string(),
+  created_at: z.string(),
+})
+
+export const visaSupportLeadSchema = z.object({
+  id: visaSupportRequestIdSchema,
+  user_id: z.string().uuid(),
+  email: z.string(),
+  cancellation_id: z.string().uuid().nullable(),
+  visa_code: z.string(),
+  visa_type: z.string(),
+  has_lawyer: z.boolean(),
+  status: visaSupportStatusSchema,
+  claimed_by_email: z.string().nullable(),
+  claimed_at: z.string().nullable(),
+  closed_at: z.string().nullable(),
+  created_at: z.string(),
+  notes: z.array(visaSupportNoteSchema),
+})
+
+// GET /api/admin/visa-support?status=open - open and claimed leads when no status is given
+export const listVisaSupportQuerySchema = z.object({
+  status: visaSupportStatusSchema.optional(),
+})
+
+// POST /api/admin/visa-support/:id/notes
+export const addVisaSupportNoteSchema = z.object({
+  body: z.string().trim().min(1).max(2000),
+})
+
+export const visaSupportLeadsResponseSchema = z.object({
+  success: z.literal(true),
+  leads: z.array(visaSupportLeadSchema),
+})
+
+// Claim, note and close all answer with the updated lead
+export const visaSupportLeadResponseSchema = z.object({
+  success: z.literal(true),
+  lead: visaSupportLeadSchema,
+})
+
+export type VisaSupportStatus = z.infer<typeof visaSupportStatusSchema>
+export type VisaSupportNoteSummary = z.infer<typeof visaSupportNoteSchema>
+export type VisaSupportLead = z.infer<typeof visaSupportLeadSchema>
+export type ListVisaSupportQuery = z.infer<typeof listVisaSupportQuerySchema>
+export type AddVisaSupportNoteRequest = z.infer<typeof addVisaSupportNoteSchema>
+export type VisaSupportLeadsResponse = z.infer<typeof visaSupportLeadsResponseSchema>
+export type VisaSupportLeadResponse = z.infer<typeof visaSupportLeadResponseSchema>
@@ -0,0 +1,165 @@
+// Visa support leads - handed over when a user without an immigration lawyer finishes the flow,
+// then claimed, noted and closed by staff from the queue at /admin/visa-support
+import { supabaseAdmin as supabase } from "@/lib/supabase"
+import { ApiError } from "@/lib/api"
+import { notify } from "@/lib/emails"
+import type { VisaSupportLead, VisaSupportStatus } from "@/lib/visa-support-api"
+import type { Cancellation, User, VisaSupportNote, VisaSupportRequest } from "@/types/database"
+
+// Still waiting on the visa team
+const QUEUED_STATUSES: VisaSupportStatus[] = ["open", "claimed"]
+
+async function getLeadRow(id: string): Promise<VisaSupportRequest> {
+  const { data, error } = await supabase.from("visa_support_requests").select("*").eq("id", id).maybeSingle()
+
+  if (error) throw error
+  if (!data) throw new ApiError(404, "Visa support request not found")
+  return data
+}
+
+// Adds the notes and the email addresses staff work with
+async function toLeads(rows: VisaSupportRequest[]): Promise<VisaSupportLead[]> {
+  if (rows.length === 0) return []
+
+  const { data: noteRows, error: notesError } = await supabase
+    .from("visa_support_notes")
+    .select("*")
+    .in("request_id", rows.map((row) => row.id))
+    .order("id", { ascending: true })
+
+  if (notesError) throw notesError
+  const notes = noteRows as VisaSupportNote[]
+
+  const userIds = new Set<string>()
+  for (const row of rows) {
+    userIds.add(row.user_id)
+    if (row.claimed_by) userIds.add(row.claimed_by)
+  }
+  for (const note of notes) if (note.author_id) userIds.add(note.author_id)
+
+  const { data: users, error: usersError } = await supabase.from("users").select("id, email").in("id", [...userIds])
+  if (usersError) throw usersError
+  const emails = new Map((users as Pick<User, "id" | "email">[]).map((user) => [user.id, user.email]))
+  const emailOf = (id: string | null) => (id ? (emails.get(id) ?? null) : null)
+
+  return rows.map((row) => ({
+    id: row.id,
+    user_id: row.user_id,
+    email: emailOf(row.user_id) ?? "",
+    cancellation_id: row.cancellation_id,
+    visa_code: row.visa_code,
+    visa_type: row.visa_type,
+    has_lawyer: row.has_lawyer,
+    status: row.status,
+    claimed_by_email: emailOf(row.claimed_by),
+    claimed_at: row.claimed_at,
+    closed_at: row.closed_at,
+    created_at: row.created_at,
+    notes: notes
+      .filter((note) => note.request_id === row.id)
+      .map((note) => ({ id: note.id, author_email: emailOf(note.author_id), body: note.body, created_at: note.created_at })),
+  }))
+}
+
+async function getLead(id: string): Promise<VisaSupportLead> {
+  const [lead] = await toLeads([await getLeadRow(id)])
+  return lead
+}
+
+// One lead per session; handing over again returns the existing lead without emailing the user twice.
+// Leads are only for users without a lawyer, with the visa as saved in the session's answers.
+export async function createVisaSupportRequest(
+  cancellation: Cancellation,
+  visa: Pick<VisaSupportRequest, "visa_code" | "visa_type">,
+): Promise<VisaSupportRequest> {
+  const { data, error } = await supabase
+    .from("visa_support_requests")
+    .upsert(
+      {
+        user_id: cancellation.user_id,
+        cancellation_id: cancellation.id,
+        visa_code: visa.visa_code,
+        visa_type: visa.visa_type,
+        has_lawyer: false,
+      },
+      { onConflict: "cancellation_id", ignoreDuplicates: true },
+    )
+    .select("*")
+
+  if (error) throw error
+  const [created] = data as VisaSupportRequest[]
+  if (!created) {
+    const { data: existing, error: existingError } = await supabase
+      .from("visa_support_requests")
+      .select("*")
+      .eq("cancellation_id", cancellation.id)
+      .single()
+
+    if (existingError) throw existingError
+    return existing
+  }
+
+  // The outcome screen told the user the visa team will reach out
+  await notify(cancellation.user_id, { template: "visa-handoff", visaType: created.visa_type }, cancellation.locale)
+  return created
+}
+
+// Oldest first, so the queue is worked in the order users were promised a reply
+export async function listVisaSupportLeads(status?: VisaSupportStatus): Promise<VisaSupportLead[]> {
+  const { data, error } = await supabase
+    .from("visa_support_requests")
+    .select("*")
+    .in("status", status ? [status] : QUEUED_STATUSES)
+    .order("created_at", { ascending: true })
+
+  if (error) throw error
+  return toLeads(data)
+}
+
+// Only an open lead can be claimed, so two staff members can't both pick up the same one
+export async function claimVisaSupportLead(staffId: string, id: string): Promise<VisaSupportLead> {
+  const { data, error } = await supabase
+    .from("visa_support_requests")
+    .update({ status: "claimed", claimed_by: staffId, claimed_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("status", "open")
+    .select("id")
+
+  if (error) throw error
+  if (data.length === 0) {
+    const row = await getLeadRow(id)
+    throw new ApiError(409, `Visa support request is already ${row.status}`)
+  }
+  return getLead(id)
+}
+
+export async function addVisaSupportNote(staffId: string, id: string, body: string): Promise<VisaSupportLead> {
+  await getLeadRow(id)
+  const { error } = await supabase.from("visa_support_notes").insert({ request_id: id, author_id: staffId, body })
+
+  if (error) throw error
+  return getLead(id)
+}
+
+// Closing an unclaimed lead also claims it, so it's clear who handled it
+export async function closeVisaSupportLead(staffId: string, id: string): Promise<VisaSupportLead> {
+  const row = await getLeadRow(id)
+  if (row.status === "closed") throw new ApiError(409, "Visa support request is already closed")
+
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from("visa_support_requests")
+    .update({
+      status: "closed",
+      closed_at: now,
+      claimed_by: row.claimed_by ?? staffId,
+      claimed_at: row.claimed_at ?? now,
+    })
+    .eq("id", id)
+    .eq("status", row.status)
+    .select("id")
+
+  if (error) throw error
+  if (data.length === 0) throw new ApiError(409, "Visa support request changed; reload and try again")
+  return getLead(id)
+}
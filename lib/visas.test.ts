@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest"
+import { OTHER_VISA_CODE, VISAS, matchVisa, normalizeVisaAnswer } from "@/lib/visas"
+
+describe("matchVisa", () => {
+  it("matches names and aliases however they're punctuated or cased", () => {
+    for (const text of ["H-1B", "h1b", "H1-B visa", "  H 1 B  "]) expect(matchVisa(text)?.code).toBe("US-H1B")
+    expect(matchVisa("blaue karte")?.code).toBe("DE-BLUE-CARD")
+    expect(matchVisa("STEM extension")?.code).toBe("US-STEM-OPT")
+  })
+
+  it("matches a catalog code typed as text", () => {
+    expect(matchVisa("us-tn")?.code).toBe("US-TN")
+  })
+
+  it("finds nothing for visas outside the catalog", () => {
+    expect(matchVisa("Working holiday")).toBeNull()
+    expect(matchVisa("")).toBeNull()
+  })
+
+  it("maps every catalog name and alias back to its own visa", () => {
+    for (const visa of VISAS) {
+      expect(matchVisa(visa.name)).toBe(visa)
+      for (const alias of visa.aliases) expect(matchVisa(alias)).toBe(visa)
+    }
+  })
+})
+
+describe("normalizeVisaAnswer", () => {
+  it("saves a catalog pick under its code and name, whatever text came with it", () => {
+    expect(normalizeVisaAnswer("US-O1", "o1a")).toEqual({ visa_code: "US-O1", visa_type: "O-1" })
+  })
+
+  it("moves typed text that names a catalog visa under that visa", () => {
+    expect(normalizeVisaAnswer(OTHER_VISA_CODE, "tier 2 visa")).toEqual({
+      visa_code: "GB-SKILLED-WORKER",
+      visa_type: "Skilled Worker visa",
+    })
+  })
+
+  it("keeps other visas under other with the text trimmed", () => {
+    expect(normalizeVisaAnswer(OTHER_VISA_CODE, "  Working holiday  ")).toEqual({
+      visa_code: OTHER_VISA_CODE,
+      visa_type: "Working holiday",
+    })
+  })
+
+  it("treats an unknown code as other", () => {
+    expect(normalizeVisaAnswer("XX-UNKNOWN", "Something")).toEqual({ visa_code: OTHER_VISA_CODE, visa_type: "Something" })
+  })
+})
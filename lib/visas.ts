@@ -0,0 +1,77 @@
+// Visa catalog - the visas users pick from on the visa step, so answers can be reported on by code
+// Pure data and functions so the combobox and the API normalize answers the same way.
+// Answers that aren't in the catalog are saved under OTHER_VISA_CODE with the text the user typed.
+
+export interface Visa {
+  code: string // Stable id saved with answers, e.g. "US-H1B"
+  country: string // ISO 3166-1 alpha-2
+  name: string // As the country's immigration authority writes it
+  aliases: string[] // Other ways people write it, matched when normalizing typed answers
+}
+
+export const OTHER_VISA_CODE = "other"
+
+export const VISAS: Visa[] = [
+  { code: "US-H1B", country: "US", name: "H-1B", aliases: ["H1B", "H1-B", "H1", "Specialty occupation"] },
+  { code: "US-H1B1", country: "US", name: "H-1B1", aliases: ["H1B1", "Chile/Singapore H-1B"] },
+  { code: "US-E3", country: "US", name: "E-3", aliases: ["E3", "Australian E-3"] },
+  { code: "US-TN", country: "US", name: "TN", aliases: ["TN-1", "TN1", "NAFTA", "USMCA"] },
+  { code: "US-O1", country: "US", name: "O-1", aliases: ["O1", "O-1A", "O1A", "Extraordinary ability"] },
+  { code: "US-L1", country: "US", name: "L-1", aliases: ["L1", "L-1A", "L-1B", "Intracompany transfer"] },
+  { code: "US-F1-OPT", country: "US", name: "F-1 OPT", aliases: ["OPT", "F1 OPT", "F1", "F-1"] },
+  { code: "US-STEM-OPT", country: "US", name: "F-1 STEM OPT", aliases: ["STEM OPT", "STEM extension", "OPT extension"] },
+  { code: "US-J1", country: "US", name: "J-1", aliases: ["J1", "Exchange visitor"] },
+  { code: "US-E2", country: "US", name: "E-2", aliases: ["E2", "Treaty investor"] },
+  { code: "US-EB2-NIW", country: "US", name: "EB-2 NIW", aliases: ["NIW", "EB2 NIW", "National interest waiver"] },
+  { code: "US-EB1", country: "US", name: "EB-1", aliases: ["EB1", "EB-1A", "EB1A", "EB-1B"] },
+  {
+    code: "US-GREEN-CARD",
+    country: "US",
+    name: "Green card",
+    aliases: ["Permanent resident", "LPR", "PERM", "EB-2", "EB-3"],
+  },
+  { code: "CA-EXPRESS-ENTRY", country: "CA", name: "Express Entry", aliases: ["Canadian PR", "CEC", "FSW"] },
+  { code: "CA-WORK-PERMIT", country: "CA", name: "Work permit", aliases: ["LMIA", "Closed work permit", "Open work permit"] },
+  { code: "GB-SKILLED-WORKER", country: "GB", name: "Skilled Worker visa", aliases: ["Tier 2", "UK work visa"] },
+  { code: "GB-GLOBAL-TALENT", country: "GB", name: "Global Talent visa", aliases: ["Tier 1", "Global talent"] },
+  { code: "AU-482", country: "AU", name: "Subclass 482", aliases: ["482", "TSS", "Skills in Demand", "Temporary skill shortage"] },
+  { code: "AU-189", country: "AU", name: "Subclass 189", aliases: ["189", "Skilled independent"] },
+  { code: "DE-BLUE-CARD", country: "DE", name: "EU Blue Card", aliases: ["Blue card", "Blaue Karte"] },
+  { code: "NL-HSM", country: "NL", name: "Highly skilled migrant", aliases: ["HSM", "Kennismigrant", "Knowledge migrant"] },
+  { code: "IE-CSEP", country: "IE", name: "Critical Skills Employment Permit", aliases: ["CSEP", "Critical skills"] },
+]
+
+const VISAS_BY_CODE = new Map(VISAS.map((visa) => [visa.code, visa]))
+
+export function findVisa(code: string): Visa | null {
+  return VISAS_BY_CODE.get(code) ?? null
+}
+
+export function isVisaCode(code: string): boolean {
+  return code === OTHER_VISA_CODE || VISAS_BY_CODE.has(code)
+}
+
+// "h1b", "H-1B visa" and "H1-B" all become "h1b"
+function simplify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\bvisa\b/g, "")
+    .replace(/[^a-z0-9]/g, "")
+}
+
+const VISAS_BY_NAME = new Map(
+  VISAS.flatMap((visa) => [visa.name, visa.code, ...visa.aliases].map((name) => [simplify(name), visa] as const)),
+)
+
+// The catalog visa typed text names, if any
+export function matchVisa(text: string): Visa | null {
+  return VISAS_BY_NAME.get(simplify(text)) ?? null
+}
+
+// The answer as saved: a catalog visa under its code and name, and anything else under "other" with the text as typed,
+// unless the text turns out to name a catalog visa after all
+export function normalizeVisaAnswer(code: string, text: string): { visa_code: string; visa_type: string } {
+  const visa = code === OTHER_VISA_CODE ? matchVisa(text) : findVisa(code)
+  if (!visa) return { visa_code: OTHER_VISA_CODE, visa_type: text.trim() }
+  return { visa_code: visa.code, visa_type: visa.name }
+}
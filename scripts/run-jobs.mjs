@@ -0,0 +1,50 @@
+// run-jobs.mjs
+// Local scheduler for the jobs in lib/jobs - calls each job's endpoint on a running app
+// Usage: node scripts/run-jobs.mjs [job...] [--every <minutes>]
+// Reads APP_URL (default http://localhost:3000) and CRON_SECRET from the environment
+
+const DEFAULT_JOBS = ["renew-subscriptions", "expire-subscriptions", "sync-invoices", "prune-idempotency-keys", "send-reactivation-reminders"]
+
+const args = process.argv.slice(2)
+const everyIndex = args.indexOf("--every")
+const everyMinutes = everyIndex === -1 ? null : Number(args[everyIndex + 1])
+const jobs = args.filter((arg, i) => !arg.startsWith("--") && i !== everyIndex + 1)
+
+const appUrl = process.env.APP_URL ?? "http://localhost:3000"
+const secret = process.env.CRON_SECRET
+
+if (!secret) {
+  console.error("CRON_SECRET must be set")
+  process.exit(1)
+}
+
+async function runJob(name) {
+  const res = await fetch(`${appUrl}/api/jobs/${name}`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${secret}` },
+  })
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(`${name} failed with HTTP ${res.status}: ${data.message ?? "unknown error"}`)
+  console.log(`[jobs] ${name}: processed ${data.processed}`)
+}
+
+async function runAll() {
+  let failed = false
+  for (const name of jobs.length ? jobs : DEFAULT_JOBS) {
+    try {
+      await runJob(name)
+    } catch (error) {
+      failed = true
+      console.error(`[jobs] ${error.message}`)
+    }
+  }
+  return failed
+}
+
+if (everyMinutes) {
+  console.log(`[jobs] Running every ${everyMinutes} minute(s), Ctrl+C to stop`)
+  await runAll()
+  setInterval(runAll, everyMinutes * 60 * 1000)
+} else {
+  process.exitCode = (await runAll()) ? 1 : 0
+}
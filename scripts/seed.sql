@@ -8,6 +8,8 @@
 CREATE TABLE IF NOT EXISTS users (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   email TEXT UNIQUE NOT NULL,
+  role TEXT NOT NULL DEFAULT 'user' CHECK (role IN ('user', 'admin')),
+  locale TEXT CHECK (locale IN ('en', 'es', 'pt')), -- Language the user picked; NULL follows their browser
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -15,29 +17,432 @@ CREATE TABLE IF NOT EXISTS users (
 CREATE TABLE IF NOT EXISTS subscriptions (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   user_id UUID REFERENCES users(id) ON DELETE CASCADE,
-  monthly_price INTEGER NOT NULL, -- Price in USD cents
+  monthly_price INTEGER NOT NULL, -- Price in minor units of currency (cents, pence, whole yen)
+  currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency IN ('USD', 'EUR', 'GBP', 'AUD', 'CAD', 'NZD', 'BRL', 'MXN', 'INR', 'CHF', 'JPY')), -- Never changes; discounts and invoices use it too
   status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'pending_cancellation', 'cancelled')),
+  current_period_end TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW() + INTERVAL '1 month', -- Active subscriptions renew here (renew-subscriptions job); pending cancellations end here
+  is_trial BOOLEAN NOT NULL DEFAULT FALSE,
+  is_uc_student BOOLEAN NOT NULL DEFAULT FALSE, -- Access through the UC student program
+  managed_organization TEXT, -- Set when an organization manages and pays for the access
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Lets the expire-subscriptions job find due cancellations quickly
+CREATE INDEX IF NOT EXISTS subscriptions_pending_period_end_idx
+  ON subscriptions (current_period_end) WHERE status = 'pending_cancellation';
+
+-- Lets the renew-subscriptions job find active subscriptions due to renew
+CREATE INDEX IF NOT EXISTS subscriptions_active_period_end_idx
+  ON subscriptions (current_period_end) WHERE status = 'active';
+
+-- Create experiments table
+-- Each experiment splits users across weighted arms, e.g.
+-- [{ "key": "A", "weight": 90, "offer": null }, { "key": "B", "weight": 10, "offer": { "type": "percent_off", "percentOff": 50 } }]
+CREATE TABLE IF NOT EXISTS experiments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT UNIQUE NOT NULL, -- Also the hash salt, so renaming reshuffles assignments
+  arms JSONB NOT NULL,
+  eligibility JSONB NOT NULL DEFAULT '{}', -- currency (default USD), min_monthly_price, max_monthly_price, monthly_prices (minor units)
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  ends_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create flow_content_versions table
+-- Admin-edited copy and answer options for the cancellation flow; drafts have no published_at
+-- The latest published version is live; with none published the built-in content in lib/flow-content.ts is used
+CREATE TABLE IF NOT EXISTS flow_content_versions (
+  version SERIAL PRIMARY KEY,
+  content JSONB NOT NULL, -- { options: {...}, copy: { "<locale>": { "<message id>": "<text>" } } }
+  note TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  published_at TIMESTAMP WITH TIME ZONE
+);
+
 -- Create cancellations table
 CREATE TABLE IF NOT EXISTS cancellations (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   user_id UUID REFERENCES users(id) ON DELETE CASCADE,
   subscription_id UUID REFERENCES subscriptions(id) ON DELETE CASCADE,
-  downsell_variant TEXT NOT NULL CHECK (downsell_variant IN ('A', 'B')),
+  experiment_id UUID REFERENCES experiments(id) ON DELETE SET NULL,
+  downsell_variant TEXT NOT NULL, -- Arm key within the experiment, or 'control' when none ran
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'offer_accepted', 'cancelled', 'expired', 'reactivated')),
   reason TEXT,
   accepted_downsell BOOLEAN DEFAULT FALSE,
+  current_step TEXT, -- Last flow step the user was on, for resuming
+  progress JSONB, -- Snapshot of partial answers, for resuming
+  last_activity_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  reactivated_at TIMESTAMP WITH TIME ZONE, -- Set when the user undoes the cancellation before period end
+  reminder_sent_at TIMESTAMP WITH TIME ZONE, -- Reactivation reminder emailed (send-reactivation-reminders job)
+  content_version INTEGER REFERENCES flow_content_versions(version), -- Copy the user saw; NULL for the built-in copy
+  locale TEXT NOT NULL DEFAULT 'en' CHECK (locale IN ('en', 'es', 'pt')), -- Language the flow was shown in
+  offer_eligibility JSONB, -- Offers the eligibility rules (lib/offer-eligibility.ts) allowed and blocked at the start
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- A subscription has at most one open session, so concurrent starts can't create two
+CREATE UNIQUE INDEX IF NOT EXISTS cancellations_one_open_idx
+  ON cancellations (user_id, subscription_id) WHERE status = 'in_progress';
+
+-- Create cancellation_responses table
+-- One row per cancellation holding the structured survey and feedback answers
+-- Answer options are editable content, so the API validates them against the session's content version
+CREATE TABLE IF NOT EXISTS cancellation_responses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cancellation_id UUID UNIQUE NOT NULL REFERENCES cancellations(id) ON DELETE CASCADE,
+  has_job BOOLEAN,
+  found_job_with_mm BOOLEAN,
+  roles_applied TEXT,
+  companies_emailed TEXT,
+  companies_interviewed TEXT,
+  feedback TEXT,
+  reason TEXT,
+  reason_feedback TEXT,
+  max_price INTEGER CHECK (max_price >= 0), -- Price in minor units of max_price_currency
+  max_price_currency TEXT, -- The subscription's currency when the user answered
+  has_lawyer BOOLEAN,
+  visa_code TEXT, -- Catalog code (lib/visas.ts) or 'other'; report on this rather than visa_type
+  visa_type TEXT, -- The catalog visa's name, or the text typed for 'other'
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS cancellation_responses_visa_code_idx ON cancellation_responses (visa_code);
+
+-- Create cancellation_events table
+-- Append-only audit trail of each session: steps entered, answers given, offers shown or accepted, back and close.
+-- The cancellation row only holds the latest state; this is what support and product replay a session from.
+CREATE TABLE IF NOT EXISTS cancellation_events (
+  id BIGSERIAL PRIMARY KEY, -- Also the order events happened in
+  cancellation_id UUID NOT NULL REFERENCES cancellations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN (
+    'session_started', 'session_resumed', 'session_expired', 'step_entered', 'answer_given', 'offer_shown',
+    'offer_accepted', 'back', 'closed', 'cancellation_confirmed', 'reactivated'
+  )),
+  step TEXT, -- Flow step, or the answered step for answer_given
+  downsell_variant TEXT NOT NULL, -- The session's arm when the event happened
+  data JSONB NOT NULL DEFAULT '{}', -- Answers given, discount accepted, etc.
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS cancellation_events_cancellation_idx ON cancellation_events (cancellation_id, id);
+
+-- History is never rewritten; rows only go when their cancellation or user is deleted
+CREATE OR REPLACE FUNCTION forbid_cancellation_event_update()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+  RAISE EXCEPTION 'cancellation_events is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS cancellation_events_append_only ON cancellation_events;
+CREATE TRIGGER cancellation_events_append_only
+  BEFORE UPDATE ON cancellation_events
+  FOR EACH ROW EXECUTE FUNCTION forbid_cancellation_event_update();
+
+REVOKE UPDATE, DELETE, TRUNCATE ON cancellation_events FROM anon, authenticated, service_role;
+
+-- Create analytics_events table
+-- Funnel telemetry sent in batches by the flow (lib/analytics-client.ts); unlike cancellation_events it may lose
+-- events, and is only read in aggregate for the per-variant funnel
+CREATE TABLE IF NOT EXISTS analytics_events (
+  id UUID PRIMARY KEY, -- Generated in the browser, so a batch sent twice is only counted once
+  cancellation_id UUID NOT NULL REFERENCES cancellations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  experiment_id UUID REFERENCES experiments(id) ON DELETE SET NULL, -- Copied from the session
+  downsell_variant TEXT NOT NULL, -- Copied from the session, never taken from the browser
+  name TEXT NOT NULL CHECK (name IN ('step_view', 'step_complete', 'back', 'abandon', 'offer_impression')),
+  step TEXT NOT NULL,
+  properties JSONB NOT NULL DEFAULT '{}', -- duration_ms, to, ...
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL, -- Browser clock
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS analytics_events_experiment_idx ON analytics_events (experiment_id, downsell_variant);
+
+-- Create visa_support_requests table
+-- Leads for the visa team from users who cancelled without an immigration lawyer; staff claim, note and close them
+CREATE TABLE IF NOT EXISTS visa_support_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  cancellation_id UUID UNIQUE REFERENCES cancellations(id) ON DELETE SET NULL, -- One lead per session
+  visa_code TEXT NOT NULL, -- Catalog code (lib/visas.ts) or 'other'
+  visa_type TEXT NOT NULL,
+  has_lawyer BOOLEAN NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'claimed', 'closed')),
+  claimed_by UUID REFERENCES users(id) ON DELETE SET NULL, -- Staff member working the lead
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS visa_support_requests_queue_idx ON visa_support_requests (status, created_at);
+
+-- Staff notes on a visa support lead, oldest first
+CREATE TABLE IF NOT EXISTS visa_support_notes (
+  id BIGSERIAL PRIMARY KEY,
+  request_id UUID NOT NULL REFERENCES visa_support_requests(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  body TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS visa_support_notes_request_idx ON visa_support_notes (request_id, id);
+
+-- Create subscription_discounts table
+-- A discount replaces monthly_price from starts_at until ends_at, or until reverted
+CREATE TABLE IF NOT EXISTS subscription_discounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id UUID NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+  cancellation_id UUID REFERENCES cancellations(id) ON DELETE SET NULL, -- The downsell it came from
+  discounted_price INTEGER NOT NULL CHECK (discounted_price >= 0), -- Price in minor units of the subscription's currency
+  term TEXT NOT NULL CHECK (term IN ('until_job_found', 'months', 'forever')),
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE, -- Set for 'months'; open-ended terms end by reverting
+  reverted_at TIMESTAMP WITH TIME ZONE, -- Back to full price from this moment
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS subscription_discounts_subscription_idx ON subscription_discounts (subscription_id);
+
+-- Create invoices table
+-- Copied from the billing provider by the sync-invoices job
+CREATE TABLE IF NOT EXISTS invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id UUID NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+  provider_invoice_id TEXT UNIQUE NOT NULL,
+  amount INTEGER NOT NULL CHECK (amount >= 0), -- Price in minor units of currency, after any discount
+  subtotal INTEGER CHECK (subtotal >= 0), -- Before any discount, as billed then; receipts never use today's price
+  currency TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('paid', 'open', 'void')),
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  discount_id UUID REFERENCES subscription_discounts(id) ON DELETE SET NULL,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+CREATE INDEX IF NOT EXISTS invoices_subscription_period_idx ON invoices (subscription_id, period_start DESC);
+
+-- Create idempotency_keys table
+-- Responses to writes sent with an Idempotency-Key header, replayed when the same request is retried
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  request_hash TEXT NOT NULL, -- Method, path and body; a key reused for a different request is rejected
+  status_code INTEGER, -- NULL while the first request is still running
+  response JSONB,
+  claimed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(), -- When the running request took the key; a retry takes over a claim past its lease
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, key)
+);
+
+-- Database functions
+-- Writes that touch more than one row run here so they commit or roll back together (called via rpc from lib/db.ts).
+-- Each locks the cancellation and re-checks its status, so concurrent requests can't both apply.
+-- Errors meant for the caller are raised with the HTTP status as the hint.
+
+CREATE OR REPLACE FUNCTION lock_open_cancellation(p_cancellation_id UUID)
+RETURNS cancellations LANGUAGE plpgsql AS $$
+DECLARE
+  v_cancellation cancellations;
+BEGIN
+  SELECT * INTO v_cancellation FROM cancellations WHERE id = p_cancellation_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cancellation not found' USING HINT = '404';
+  END IF;
+  IF v_cancellation.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Cancellation is already %', replace(v_cancellation.status, '_', ' ') USING HINT = '409';
+  END IF;
+  RETURN v_cancellation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_cancellation_event(p_cancellation cancellations, p_type TEXT, p_step TEXT, p_data JSONB)
+RETURNS VOID LANGUAGE sql AS $$
+  INSERT INTO cancellation_events (cancellation_id, user_id, type, step, downsell_variant, data)
+  VALUES (p_cancellation.id, p_cancellation.user_id, p_type, p_step, p_cancellation.downsell_variant, p_data);
+$$;
+
+-- Merges one step's answers (keyed by column) into the response row and touches the session
+CREATE OR REPLACE FUNCTION submit_cancellation_step(p_cancellation_id UUID, p_step TEXT, p_answers JSONB)
+RETURNS cancellations LANGUAGE plpgsql AS $$
+DECLARE
+  v_cancellation cancellations;
+  v_response cancellation_responses;
+BEGIN
+  PERFORM lock_open_cancellation(p_cancellation_id);
+
+  INSERT INTO cancellation_responses (cancellation_id) VALUES (p_cancellation_id)
+  ON CONFLICT (cancellation_id) DO NOTHING;
+
+  SELECT * INTO v_response FROM cancellation_responses WHERE cancellation_id = p_cancellation_id FOR UPDATE;
+  v_response := jsonb_populate_record(v_response, p_answers);
+
+  UPDATE cancellation_responses SET
+    has_job = v_response.has_job,
+    found_job_with_mm = v_response.found_job_with_mm,
+    roles_applied = v_response.roles_applied,
+    companies_emailed = v_response.companies_emailed,
+    companies_interviewed = v_response.companies_interviewed,
+    feedback = v_response.feedback,
+    reason = v_response.reason,
+    reason_feedback = v_response.reason_feedback,
+    max_price = v_response.max_price,
+    max_price_currency = v_response.max_price_currency,
+    has_lawyer = v_response.has_lawyer,
+    visa_code = v_response.visa_code,
+    visa_type = v_response.visa_type,
+    updated_at = NOW()
+  WHERE cancellation_id = p_cancellation_id;
+
+  -- The headline reason is kept on the cancellation itself for quick reporting
+  UPDATE cancellations
+  SET reason = COALESCE(p_answers->>'reason', reason), last_activity_at = NOW()
+  WHERE id = p_cancellation_id
+  RETURNING * INTO v_cancellation;
+
+  PERFORM record_cancellation_event(v_cancellation, 'answer_given', p_step, p_answers);
+  RETURN v_cancellation;
+END;
+$$;
+
+-- Ends the session with the offer taken and replaces any live discount with the offer's
+CREATE OR REPLACE FUNCTION accept_cancellation_offer(
+  p_cancellation_id UUID,
+  p_discount_id UUID,
+  p_discounted_price INTEGER,
+  p_term TEXT,
+  p_starts_at TIMESTAMP WITH TIME ZONE,
+  p_ends_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS cancellations LANGUAGE plpgsql AS $$
+DECLARE
+  v_cancellation cancellations;
+BEGIN
+  v_cancellation := lock_open_cancellation(p_cancellation_id);
+
+  -- Only one discount applies at a time
+  UPDATE subscription_discounts SET reverted_at = p_starts_at
+  WHERE subscription_id = v_cancellation.subscription_id
+    AND reverted_at IS NULL
+    AND (ends_at IS NULL OR ends_at > p_starts_at);
+
+  INSERT INTO subscription_discounts (id, subscription_id, cancellation_id, discounted_price, term, starts_at, ends_at)
+  VALUES (p_discount_id, v_cancellation.subscription_id, p_cancellation_id, p_discounted_price, p_term, p_starts_at, p_ends_at);
+
+  UPDATE cancellations
+  SET accepted_downsell = TRUE, status = 'offer_accepted', last_activity_at = NOW()
+  WHERE id = p_cancellation_id
+  RETURNING * INTO v_cancellation;
+
+  PERFORM record_cancellation_event(v_cancellation, 'offer_accepted', NULL, jsonb_build_object(
+    'discount_id', p_discount_id, 'discounted_price', p_discounted_price, 'term', p_term, 'starts_at', p_starts_at
+  ));
+  RETURN v_cancellation;
+END;
+$$;
+
+-- Ends the session as cancelled and schedules the subscription to end with its period
+CREATE OR REPLACE FUNCTION confirm_cancellation(p_cancellation_id UUID)
+RETURNS cancellations LANGUAGE plpgsql AS $$
+DECLARE
+  v_cancellation cancellations;
+BEGIN
+  v_cancellation := lock_open_cancellation(p_cancellation_id);
+
+  UPDATE subscriptions SET status = 'pending_cancellation', updated_at = NOW()
+  WHERE id = v_cancellation.subscription_id AND status = 'active';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Subscription is not active' USING HINT = '409';
+  END IF;
+
+  UPDATE cancellations SET status = 'cancelled', last_activity_at = NOW()
+  WHERE id = p_cancellation_id
+  RETURNING * INTO v_cancellation;
+
+  PERFORM record_cancellation_event(v_cancellation, 'cancellation_confirmed', NULL, '{}');
+  RETURN v_cancellation;
+END;
+$$;
+
+-- Undoes a pending cancellation, marking the cancellation it came from as reactivated
+CREATE OR REPLACE FUNCTION reactivate_subscription(p_subscription_id UUID)
+RETURNS subscriptions LANGUAGE plpgsql AS $$
+DECLARE
+  v_subscription subscriptions;
+BEGIN
+  UPDATE subscriptions SET status = 'active', updated_at = NOW()
+  WHERE id = p_subscription_id AND status = 'pending_cancellation'
+  RETURNING * INTO v_subscription;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Subscription is not pending cancellation' USING HINT = '409';
+  END IF;
+
+  WITH reactivated AS (
+    UPDATE cancellations SET status = 'reactivated', reactivated_at = NOW()
+    WHERE subscription_id = p_subscription_id AND status = 'cancelled'
+    RETURNING *
+  )
+  INSERT INTO cancellation_events (cancellation_id, user_id, type, downsell_variant)
+  SELECT id, user_id, 'reactivated', downsell_variant FROM reactivated;
+
+  RETURN v_subscription;
+END;
+$$;
+
+-- Report queries - aggregated here so dashboards never read raw rows, which the API caps per request
+
+-- Sessions per variant and status for an experiment's results; open sessions idle since before p_stale_before
+-- are counted apart, as the results treat them as abandoned
+CREATE OR REPLACE FUNCTION experiment_outcomes(p_experiment_id UUID, p_stale_before TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (downsell_variant TEXT, status TEXT, stale BOOLEAN, sessions BIGINT) LANGUAGE sql STABLE AS $$
+  SELECT c.downsell_variant, c.status, c.status = 'in_progress' AND c.last_activity_at < p_stale_before, COUNT(*)
+  FROM cancellations c
+  WHERE c.experiment_id = p_experiment_id
+  GROUP BY 1, 2, 3;
+$$;
+
+-- Distinct sessions per variant, event and step for an experiment's funnel;
+-- rows with a NULL step count sessions with that event on any step
+CREATE OR REPLACE FUNCTION experiment_funnel(p_experiment_id UUID)
+RETURNS TABLE (downsell_variant TEXT, name TEXT, step TEXT, sessions BIGINT) LANGUAGE sql STABLE AS $$
+  SELECT e.downsell_variant, e.name, e.step, COUNT(DISTINCT e.cancellation_id)
+  FROM analytics_events e
+  WHERE e.experiment_id = p_experiment_id
+  GROUP BY GROUPING SETS ((e.downsell_variant, e.name, e.step), (e.downsell_variant, e.name));
+$$;
+
+-- Only the service role may call these; they trust the caller to have checked ownership
+REVOKE EXECUTE ON FUNCTION lock_open_cancellation(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_cancellation_event(cancellations, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION submit_cancellation_step(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION accept_cancellation_offer(UUID, UUID, INTEGER, TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE)
+  FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION confirm_cancellation(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reactivate_subscription(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION experiment_outcomes(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION experiment_funnel(UUID) FROM PUBLIC, anon, authenticated;
+
 -- Enable Row Level Security
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE subscriptions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE cancellations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE experiments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE flow_content_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE subscription_discounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cancellation_responses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cancellation_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE analytics_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE visa_support_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE visa_support_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
 
 -- Basic RLS policies (candidates should enhance these)
+-- The cancellation API uses the service role and checks ownership itself; these cover direct client access
 CREATE POLICY "Users can view own data" ON users
   FOR SELECT USING (auth.uid() = id);
 
@@ -47,12 +452,27 @@ CREATE POLICY "Users can view own subscriptions" ON subscriptions
 CREATE POLICY "Users can update own subscriptions" ON subscriptions
   FOR UPDATE USING (auth.uid() = user_id);
 
+CREATE POLICY "Users can view own subscription discounts" ON subscription_discounts
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM subscriptions s WHERE s.id = subscription_id AND s.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can view own invoices" ON invoices
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM subscriptions s WHERE s.id = subscription_id AND s.user_id = auth.uid())
+  );
+
 CREATE POLICY "Users can insert own cancellations" ON cancellations
   FOR INSERT WITH CHECK (auth.uid() = user_id);
 
 CREATE POLICY "Users can view own cancellations" ON cancellations
   FOR SELECT USING (auth.uid() = user_id);
 
+CREATE POLICY "Users can view own cancellation responses" ON cancellation_responses
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM cancellations c WHERE c.id = cancellation_id AND c.user_id = auth.uid())
+  );
+
 -- Seed data
 INSERT INTO users (id, email) VALUES
   ('550e8400-e29b-41d4-a716-446655440001', 'user1@example.com'),
@@ -60,9 +480,36 @@ INSERT INTO users (id, email) VALUES
   ('550e8400-e29b-41d4-a716-446655440003', 'user3@example.com')
 ON CONFLICT (email) DO NOTHING;
 
--- Seed subscriptions with $25 and $29 plans
-INSERT INTO subscriptions (user_id, monthly_price, status) VALUES
-  ('550e8400-e29b-41d4-a716-446655440001', 2500, 'active'), -- $25.00
-  ('550e8400-e29b-41d4-a716-446655440002', 2900, 'active'), -- $29.00
-  ('550e8400-e29b-41d4-a716-446655440003', 2500, 'active')  -- $25.00
+INSERT INTO users (id, email, role) VALUES
+  ('550e8400-e29b-41d4-a716-446655440000', 'admin@example.com', 'admin')
+ON CONFLICT (email) DO NOTHING;
+
+-- Seed subscriptions with $25, $29 and €25 plans
+INSERT INTO subscriptions (user_id, monthly_price, currency, status) VALUES
+  ('550e8400-e29b-41d4-a716-446655440001', 2500, 'USD', 'active'), -- $25.00
+  ('550e8400-e29b-41d4-a716-446655440002', 2900, 'USD', 'active'), -- $29.00
+  ('550e8400-e29b-41d4-a716-446655440003', 2500, 'EUR', 'active')  -- €25.00
 ON CONFLICT DO NOTHING;
+
+-- Seed two months of paid history before each subscription's current period
+INSERT INTO invoices (subscription_id, provider_invoice_id, amount, subtotal, currency, status, period_start, period_end, created_at)
+SELECT
+  s.id,
+  'seed_' || s.id || '_' || n,
+  s.monthly_price,
+  s.monthly_price,
+  s.currency,
+  'paid',
+  s.current_period_end - ((n + 2) || ' months')::INTERVAL,
+  s.current_period_end - ((n + 1) || ' months')::INTERVAL,
+  s.current_period_end - ((n + 2) || ' months')::INTERVAL
+FROM subscriptions s CROSS JOIN generate_series(0, 1) AS n
+ON CONFLICT (provider_invoice_id) DO NOTHING;
+
+-- Seed the original 50/50 downsell test: A is the control, B gets 50% off
+INSERT INTO experiments (name, arms) VALUES
+  ('downsell-2025', '[
+    { "key": "A", "weight": 50, "offer": null },
+    { "key": "B", "weight": 50, "offer": { "type": "percent_off", "percentOff": 50 } }
+  ]')
+ON CONFLICT (name) DO NOTHING;
@@ -1,25 +1,195 @@
 // Database type definitions for TypeScript support
+import type { DownsellDiscount } from "@/lib/offers"
+import type { FlowContent } from "@/lib/content-api"
+import type { OfferEligibility } from "@/lib/cancellation-api"
+import type { Locale } from "@/lib/i18n"
+import type { Currency } from "@/lib/money"
+
+// Key of the experiment arm a cancellation was assigned to, e.g. "A", "B" or "control"
+export type DownsellVariant = string
+
 export interface User {
   id: string
   email: string
+  role: "user" | "admin"
+  locale: Locale | null // Language the user picked; null follows their browser
   created_at: string
 }
 
 export interface Subscription {
   id: string
   user_id: string
-  monthly_price: number
+  monthly_price: number // Minor units of currency
+  currency: Currency // Fixed for the subscription's life; its discounts and invoices are in it too
   status: "active" | "pending_cancellation" | "cancelled"
+  current_period_end: string
+  is_trial: boolean
+  is_uc_student: boolean // Access through the UC student program
+  managed_organization: string | null // Set when an organization manages and pays for the access
   created_at: string
   updated_at: string
 }
 
+export interface SubscriptionDiscount {
+  id: string
+  subscription_id: string
+  cancellation_id: string | null
+  discounted_price: number // Minor units of the subscription's currency
+  term: "until_job_found" | "months" | "forever"
+  starts_at: string
+  ends_at: string | null
+  reverted_at: string | null
+  created_at: string
+}
+
+// Mirrors the billing provider's invoices so history and receipts don't depend on it being up
+export interface Invoice {
+  id: string
+  subscription_id: string
+  provider_invoice_id: string
+  amount: number // Minor units of currency, after any discount
+  subtotal: number | null // Before any discount, as billed then; null for invoices synced before it was kept
+  currency: Currency
+  status: "paid" | "open" | "void"
+  period_start: string
+  period_end: string
+  discount_id: string | null // Set when a downsell discount priced this invoice
+  created_at: string
+}
+
+export interface ExperimentArm {
+  key: string
+  weight: number
+  // Discount shown by this arm; null for a control arm with no downsell
+  offer: DownsellDiscount | null
+}
+
+// Price rules are in minor units of currency, which defaults to USD
+export interface ExperimentEligibility {
+  currency?: Currency
+  min_monthly_price?: number
+  max_monthly_price?: number
+  monthly_prices?: number[]
+}
+
+export interface Experiment {
+  id: string
+  name: string
+  arms: ExperimentArm[]
+  eligibility: ExperimentEligibility
+  starts_at: string
+  ends_at: string | null
+  created_at: string
+}
+
 export interface Cancellation {
   id: string
   user_id: string
   subscription_id: string
-  downsell_variant: "A" | "B"
+  experiment_id: string | null
+  downsell_variant: DownsellVariant
+  status: "in_progress" | "offer_accepted" | "cancelled" | "expired" | "reactivated"
   reason?: string
   accepted_downsell: boolean
+  current_step: string | null
+  progress: Record<string, unknown> | null
+  last_activity_at: string
+  reactivated_at: string | null
+  reminder_sent_at: string | null // Reactivation reminder emailed before the period ended
+  content_version: number | null // Flow content shown; null for the built-in copy
+  locale: Locale // Language the flow was shown in
+  offer_eligibility: OfferEligibility | null // What the eligibility rules allowed at the start; null before they existed
+  created_at: string
+}
+
+export type CancellationEventType =
+  | "session_started"
+  | "session_resumed"
+  | "session_expired"
+  | "step_entered"
+  | "answer_given"
+  | "offer_shown"
+  | "offer_accepted"
+  | "back"
+  | "closed"
+  | "cancellation_confirmed"
+  | "reactivated"
+
+// Append-only audit trail of a cancellation session, in the order things happened
+export interface CancellationEvent {
+  id: number
+  cancellation_id: string
+  user_id: string
+  type: CancellationEventType
+  step: string | null // Flow step, or the answered step for answer_given
+  downsell_variant: DownsellVariant
+  data: Record<string, unknown>
+  occurred_at: string
+}
+
+// A lead for the visa team, worked through the staff queue at /admin/visa-support
+export interface VisaSupportRequest {
+  id: string
+  user_id: string
+  cancellation_id: string | null
+  visa_code: string // Catalog code or "other" (lib/visas.ts)
+  visa_type: string
+  has_lawyer: boolean
+  status: "open" | "claimed" | "closed"
+  claimed_by: string | null
+  claimed_at: string | null
+  closed_at: string | null
+  created_at: string
+}
+
+export interface VisaSupportNote {
+  id: number
+  request_id: string
+  author_id: string | null
+  body: string
+  created_at: string
+}
+
+// Funnel telemetry from the flow, read in aggregate per variant
+export interface AnalyticsEvent {
+  id: string
+  cancellation_id: string
+  user_id: string
+  experiment_id: string | null
+  downsell_variant: DownsellVariant
+  name: "step_view" | "step_complete" | "back" | "abandon" | "offer_impression"
+  step: string
+  properties: Record<string, unknown>
+  occurred_at: string
+  received_at: string
+}
+
+// One saved edit of the flow's copy and options; the latest published one is live
+export interface FlowContentVersion {
+  version: number
+  content: FlowContent
+  note: string | null
+  created_by: string | null
   created_at: string
+  published_at: string | null
+}
+
+export interface CancellationResponse {
+  id: string
+  cancellation_id: string
+  has_job: boolean | null
+  found_job_with_mm: boolean | null
+  roles_applied: string | null
+  companies_emailed: string | null
+  companies_interviewed: string | null
+  feedback: string | null
+  reason: string | null
+  reason_feedback: string | null
+  max_price: number | null // Minor units of max_price_currency
+  max_price_currency: Currency | null
+  has_lawyer: boolean | null
+  visa_code: string | null // Catalog code (lib/visas.ts) or "other"; null for answers saved before the catalog
+  visa_type: string | null
+  created_at: string
+  updated_at: string
 }